@@ -1,18 +1,28 @@
 import { Command } from 'commander';
 import ora from 'ora';
 import { spotifyClient } from '../lib/spotify-client';
-import { gatherListeningData, buildTasteProfile, formatTasteProfile } from '../lib/taste-analyzer';
+import { gatherListeningData, buildTasteProfile, formatTasteProfile, resolveRangeWeights, AnalysisData, TimeRange, TIME_RANGES } from '../lib/taste-analyzer';
+import { exportProfile, writeProfile } from '../lib/profile-sharing';
+import { saveSnapshot, getSnapshots, findSnapshot } from '../lib/snapshots';
+import { TasteSide, snapshotSide, liveSide, diffTaste, formatTasteDiff } from '../lib/taste-diff';
+import { gatherPlaylistData, analyzePlaylist, formatPlaylistAnalysis } from '../lib/playlist-analyzer';
 import chalk from 'chalk';
 
 export function registerAnalyzeCommand(program: Command): void {
-  program
+  const analyze = program
     .command('analyze')
     .description('Analyze your music taste and show your listening profile')
     .option('--json', 'Output as JSON')
+    .option('--export <file>', 'Save a portable copy of your taste profile to share (e.g. profile.json)')
+    .option('--save', 'Save a snapshot of your taste profile to compare later (see: analyze diff)')
+    .option('--range <range>', 'Listening history to analyze: short (4 weeks), medium (6 months), long (all time) or all (equal weights)')
+    .option('--weights <weights>', 'How much each time range counts (e.g. "short=1,long=3"; also medium, recent)')
     .action(async (options) => {
       const spinner = ora('Connecting to Spotify...').start();
 
       try {
+        const weights = resolveRangeWeights(options.range, options.weights);
+
         const initialized = await spotifyClient.init();
         if (!initialized) {
           spinner.fail('Not authenticated');
@@ -24,9 +34,25 @@ export function registerAnalyzeCommand(program: Command): void {
         const data = await gatherListeningData();
 
         spinner.text = 'Analyzing your music taste...';
-        const profile = buildTasteProfile(data);
+        const profile = buildTasteProfile(data, weights);
+
+        if (options.export) {
+          spinner.text = 'Exporting your taste profile...';
+          const me = await spotifyClient.getMe();
+          writeProfile(options.export, exportProfile(profile, data, me.display_name || me.id));
+        }
+
+        const snapshot = options.save ? saveSnapshot(profile, data) : undefined;
 
         spinner.succeed('Analysis complete!');
+        if (snapshot) {
+          console.log(chalk.green(`✓ Saved snapshot #${snapshot.id}`));
+          console.log(chalk.dim(`  Compare it later with: spotify-gen analyze diff ${snapshot.id} now`));
+        }
+        if (options.export) {
+          console.log(chalk.green(`✓ Taste profile saved to ${options.export}`));
+          console.log(chalk.dim(`  Share it, then blend with: spotify-gen playlist blend --with-profile ${options.export}`));
+        }
 
         if (options.json) {
           console.log(JSON.stringify(profile, null, 2));
@@ -40,4 +66,111 @@ export function registerAnalyzeCommand(program: Command): void {
         process.exit(1);
       }
     });
+  analyze
+    .command('history')
+    .description('List saved taste snapshots')
+    .action(() => {
+      const snapshots = getSnapshots();
+
+      if (snapshots.length === 0) {
+        console.log(chalk.dim('No snapshots yet. Save one with: spotify-gen analyze --save'));
+        return;
+      }
+
+      console.log(chalk.bold('\n📸 Taste Snapshots\n'));
+      for (const snapshot of snapshots) {
+        const genres = snapshot.profile.topGenres.slice(0, 3).map(g => g.genre).join(', ');
+        const artists = snapshot.artists.slice(0, 3).map(a => a.name).join(', ');
+        console.log(`  ${chalk.cyan(`#${snapshot.id}`)}  ${new Date(snapshot.takenAt).toLocaleString()}`);
+        console.log(chalk.dim(`      ${genres || 'no genres'} · ${artists || 'no artists'}`));
+      }
+      console.log(chalk.dim('\nCompare two with: spotify-gen analyze diff <a> <b>\n'));
+    });
+
+  analyze
+    .command('diff [from] [to]')
+    .description('Show how your taste moved between two snapshots (IDs or "latest"), "now", or the short/medium/long time ranges (default: long short)')
+    .option('--json', 'Output as JSON')
+    .action(async (from = 'long', to = 'short', options, command) => {
+      // --json may also be taken by the parent analyze command
+      const { json } = command.optsWithGlobals();
+      let data: AnalysisData | undefined;
+      const spinner = ora('Loading snapshots...').start();
+
+      // Live sides share one fetch of the listening history
+      const resolve = async (ref: string): Promise<TasteSide> => {
+        if (ref !== 'now' && !TIME_RANGES.includes(ref as TimeRange)) {
+          const snapshot = findSnapshot(ref);
+          if (!snapshot) {
+            throw new Error(`No snapshot "${ref}". Use a snapshot ID from "spotify-gen analyze history", latest, now, short, medium or long`);
+          }
+          return snapshotSide(snapshot);
+        }
+
+        if (!data) {
+          spinner.text = 'Connecting to Spotify...';
+          const initialized = await spotifyClient.init();
+          if (!initialized) {
+            spinner.fail('Not authenticated');
+            console.log(chalk.dim('Run: spotify-gen auth'));
+            process.exit(1);
+          }
+
+          spinner.text = 'Fetching your listening history...';
+          data = await gatherListeningData();
+        }
+        return liveSide(data, ref === 'now' ? undefined : ref as TimeRange);
+      };
+
+      try {
+        const diff = diffTaste(await resolve(from), await resolve(to));
+        spinner.succeed('Comparison complete!');
+
+        if (json) {
+          console.log(JSON.stringify(diff, null, 2));
+        } else {
+          console.log(formatTasteDiff(diff));
+        }
+      } catch (err: any) {
+        spinner.fail('Comparison failed');
+        console.error(chalk.red(err.message));
+        process.exit(1);
+      }
+    });
+
+  analyze
+    .command('playlist <playlist>')
+    .description('Analyze the audio profile of a playlist (ID, URL or name): genres, features, keys, cohesion and outliers')
+    .option('--json', 'Output as JSON')
+    .action(async (ref: string, options, command) => {
+      // --json may also be taken by the parent analyze command
+      const { json } = command.optsWithGlobals();
+      const spinner = ora('Connecting to Spotify...').start();
+
+      try {
+        const initialized = await spotifyClient.init();
+        if (!initialized) {
+          spinner.fail('Not authenticated');
+          console.log(chalk.dim('Run: spotify-gen auth'));
+          process.exit(1);
+        }
+
+        spinner.text = 'Fetching playlist tracks...';
+        const data = await gatherPlaylistData(ref);
+
+        spinner.text = 'Analyzing playlist...';
+        const analysis = analyzePlaylist(data);
+        spinner.succeed('Analysis complete!');
+
+        if (json) {
+          console.log(JSON.stringify(analysis, null, 2));
+        } else {
+          console.log(formatPlaylistAnalysis(analysis));
+        }
+      } catch (err: any) {
+        spinner.fail('Analysis failed');
+        console.error(chalk.red(err.message));
+        process.exit(1);
+      }
+    });
 }
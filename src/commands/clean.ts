@@ -0,0 +1,215 @@
+import { Command } from 'commander';
+import ora from 'ora';
+import { spotifyClient } from '../lib/spotify-client';
+import { resolvePlaylist } from '../lib/playlist-lookup';
+import { confirm } from '../lib/prompt';
+import {
+  CleanupRemoval,
+  SortKey,
+  parseSortKey,
+  findRemovals,
+  describeRemoval,
+  playlistUri,
+  sortItems,
+  sortValue,
+  reorderMoves
+} from '../lib/playlist-hygiene';
+import { AudioFeatures, SpotifyTrack } from '../types/spotify';
+import chalk from 'chalk';
+
+// How much of the new order to show before asking
+const SORT_PREVIEW = 20;
+
+interface PlaylistEntry {
+  position: number;
+  track: SpotifyTrack | null;
+}
+
+export function registerCleanCommand(program: Command): void {
+  program
+    .command('clean <playlist>')
+    .description('Remove duplicate and unplayable tracks from a playlist (ID, URL or name), optionally re-sorting it')
+    .option('--sort <key>', 'Re-sort by an audio feature (energy, tempo, ...), popularity or release-date')
+    .option('--descending', 'With --sort, highest or newest first')
+    .option('--no-similar', 'Only treat identical tracks and recordings (same ISRC) as duplicates, not the same title and artist')
+    .option('--keep-unavailable', 'Leave tracks that are unavailable in your market')
+    .option('--yes', 'Apply the changes without asking')
+    .action(async (ref: string, options) => {
+      let sortKey: SortKey | undefined;
+      try {
+        sortKey = options.sort ? parseSortKey(options.sort) : undefined;
+      } catch (err: any) {
+        console.log(chalk.red(err.message));
+        process.exit(1);
+      }
+
+      const spinner = ora('Connecting to Spotify...').start();
+
+      try {
+        const initialized = await spotifyClient.init();
+        if (!initialized) {
+          spinner.fail('Not authenticated');
+          console.log(chalk.dim('Run: spotify-gen auth'));
+          process.exit(1);
+        }
+
+        spinner.text = 'Finding playlist...';
+        const playlist = await resolvePlaylist(ref);
+
+        spinner.text = `Fetching tracks of ${playlist.name}...`;
+        // The user's market, so tracks say whether they can still be played
+        const items = await spotifyClient.getPlaylistTracks(playlist.id, 'from_token');
+
+        const removals = findRemovals(items, {
+          similar: options.similar,
+          unavailable: !options.keepUnavailable
+        });
+        const removed = new Set(removals.map(r => r.position));
+        const remaining: PlaylistEntry[] = items
+          .map((item, position) => ({ position, track: item.is_local ? null : item.track }))
+          .filter(entry => !removed.has(entry.position))
+          // Positions from here on are in the playlist after the removals
+          .map((entry, position) => ({ ...entry, position }));
+
+        let sorted: PlaylistEntry[] | undefined;
+        const audioFeatures = new Map<string, AudioFeatures>();
+        if (sortKey) {
+          if (sortKey !== 'popularity' && sortKey !== 'release-date') {
+            spinner.text = 'Fetching audio features...';
+            const ids = [...new Set(remaining.filter(e => e.track).map(e => e.track!.id))];
+            for (const features of await spotifyClient.getAudioFeatures(ids)) {
+              audioFeatures.set(features.id, features);
+            }
+          }
+          sorted = sortItems(remaining, sortKey, audioFeatures, options.descending);
+        }
+        const moves = sorted ? reorderMoves(remaining, sorted) : [];
+
+        spinner.succeed(`Checked ${items.length} tracks in ${chalk.bold(playlist.name)}`);
+        printRemovals(removals, items.length);
+        if (sortKey && sorted) {
+          printSortPreview(sorted, sortKey, audioFeatures, options.descending, moves.length);
+        }
+
+        // Removed-from-Spotify tracks come back without a URI, so there's nothing to delete them by
+        const gone = items.filter(item => !item.is_local && !item.track).length;
+        if (gone > 0) {
+          console.log(chalk.dim(`${gone} ${gone === 1 ? 'track is' : 'tracks are'} no longer on Spotify and can only be removed in the app\n`));
+        }
+
+        if (removals.length === 0 && moves.length === 0) {
+          console.log(chalk.green('✓ Nothing to clean up'));
+          return;
+        }
+
+        if (!options.yes) {
+          if (!process.stdin.isTTY) {
+            console.log(chalk.yellow('Nothing changed. Run with --yes to apply these changes without asking.'));
+            return;
+          }
+          const changes = [
+            removals.length > 0 ? `remove ${removals.length} ${removals.length === 1 ? 'track' : 'tracks'}` : '',
+            moves.length > 0 ? 're-sort the playlist' : ''
+          ].filter(Boolean).join(' and ');
+          if (!await confirm(`${changes[0].toUpperCase()}${changes.slice(1)}?`)) {
+            console.log(chalk.dim('Nothing changed'));
+            return;
+          }
+        }
+
+        let snapshotId = playlist.snapshot_id;
+
+        if (removals.length > 0) {
+          spinner.start(`Removing ${removals.length} tracks...`);
+          snapshotId = await spotifyClient.removePlaylistItems(playlist.id, groupByUri(removals), snapshotId);
+          spinner.succeed(`Removed ${removals.length} ${removals.length === 1 ? 'track' : 'tracks'}`);
+        }
+
+        if (moves.length > 0) {
+          spinner.start('Re-sorting playlist...');
+          let done = 0;
+          try {
+            for (; done < moves.length; done++) {
+              spinner.text = `Re-sorting playlist... ${done + 1}/${moves.length}`;
+              snapshotId = await spotifyClient.reorderPlaylistItems(playlist.id, moves[done].from, moves[done].to, 1, snapshotId);
+            }
+          } catch (err: any) {
+            // Every move is saved as it's made, so say how far it got and how to finish
+            throw new Error(
+              `${err.message}\nRe-sorting stopped after ${done} of ${moves.length} moves` +
+              `${removals.length > 0 ? ' (the removals are saved)' : ''}. Run the same command again to finish sorting.`
+            );
+          }
+          spinner.succeed(`Sorted by ${sortKey}${options.descending ? ' (descending)' : ''}`);
+        }
+
+        console.log(chalk.cyan(`  ${playlist.external_urls.spotify}`));
+      } catch (err: any) {
+        spinner.fail('Clean up failed');
+        console.error(chalk.red(err.message));
+        process.exit(1);
+      }
+    });
+}
+
+// The removal request names each track once, with every position to take it from
+function groupByUri(removals: CleanupRemoval[]): { uri: string; positions: number[] }[] {
+  const byUri = new Map<string, number[]>();
+  for (const removal of removals) {
+    const uri = playlistUri(removal.track);
+    byUri.set(uri, [...(byUri.get(uri) || []), removal.position]);
+  }
+  return [...byUri.entries()].map(([uri, positions]) => ({ uri, positions }));
+}
+
+function printRemovals(removals: CleanupRemoval[], total: number): void {
+  if (removals.length === 0) {
+    console.log(chalk.green('\n  ✓ No duplicates or unavailable tracks\n'));
+    return;
+  }
+
+  console.log(chalk.bold(`\n🧹 To remove (${removals.length} of ${total}):`));
+  for (const removal of removals) {
+    const position = `#${removal.position + 1}`.padStart(5);
+    console.log(chalk.red(`  - ${position}  ${describeTrack(removal.track)}`) + chalk.dim(`  ${describeRemoval(removal)}`));
+  }
+  console.log(chalk.dim(`\n  ${total - removals.length} tracks left\n`));
+}
+
+function printSortPreview(
+  sorted: PlaylistEntry[],
+  key: SortKey,
+  audioFeatures: Map<string, AudioFeatures>,
+  descending: boolean,
+  moves: number
+): void {
+  if (moves === 0) {
+    console.log(chalk.green(`  ✓ Already sorted by ${key}\n`));
+    return;
+  }
+
+  console.log(chalk.bold(`↕️  New order by ${key}${descending ? ' (descending)' : ''}:`));
+  sorted.slice(0, SORT_PREVIEW).forEach((entry, i) => {
+    const value = formatSortValue(sortValue(entry.track, key, audioFeatures), key);
+    const was = entry.position !== i ? chalk.dim(` (was #${entry.position + 1})`) : '';
+    const name = entry.track ? describeTrack(entry.track) : chalk.dim('local file or removed track');
+    console.log(`  ${chalk.green(`${String(i + 1).padStart(3)}.`)} ${name}  ${chalk.cyan(value)}${was}`);
+  });
+  if (sorted.length > SORT_PREVIEW) {
+    console.log(chalk.dim(`  ... and ${sorted.length - SORT_PREVIEW} more`));
+  }
+  console.log('');
+}
+
+function formatSortValue(value: number | string | undefined, key: SortKey): string {
+  if (value === undefined) return '-';
+  if (typeof value === 'string') return value;
+  if (key === 'tempo') return `${Math.round(value)} BPM`;
+  if (key === 'loudness') return `${value.toFixed(1)} dB`;
+  if (key === 'popularity') return String(value);
+  return value.toFixed(2);
+}
+
+function describeTrack(track: { name: string; artists: { name: string }[] }): string {
+  return `${track.artists.map(a => a.name).join(', ')} - ${track.name}`;
+}
@@ -0,0 +1,68 @@
+import { Command } from 'commander';
+import ora from 'ora';
+import { spotifyClient } from '../lib/spotify-client';
+import { resolvePlaylist } from '../lib/playlist-lookup';
+import { exportFormatFor, writeExport } from '../lib/playlist-export';
+import { AudioFeatures, SpotifyTrack } from '../types/spotify';
+import chalk from 'chalk';
+
+export function registerExportCommand(program: Command): void {
+  program
+    .command('export <playlist> [file]')
+    .description('Save an existing playlist (ID, URL or name) to a file: .m3u, .m3u8, .xspf, .csv or .json (default: <name>.json)')
+    .option('--no-features', 'Leave out audio features')
+    .action(async (ref: string, file: string | undefined, options) => {
+      const spinner = ora('Connecting to Spotify...').start();
+
+      try {
+        if (file) exportFormatFor(file);
+
+        const initialized = await spotifyClient.init();
+        if (!initialized) {
+          spinner.fail('Not authenticated');
+          console.log(chalk.dim('Run: spotify-gen auth'));
+          process.exit(1);
+        }
+
+        spinner.text = 'Finding playlist...';
+        const playlist = await resolvePlaylist(ref);
+
+        spinner.text = `Fetching tracks of ${playlist.name}...`;
+        const items = await spotifyClient.getPlaylistTracks(playlist.id);
+        // Local files and tracks removed from Spotify have nothing to export
+        const tracks = items
+          .filter(item => !item.is_local && item.track)
+          .map(item => item.track as SpotifyTrack);
+        const skipped = items.length - tracks.length;
+
+        const audioFeatures = new Map<string, AudioFeatures>();
+        if (options.features && tracks.length > 0) {
+          spinner.text = 'Fetching audio features...';
+          for (const features of await spotifyClient.getAudioFeatures([...new Set(tracks.map(t => t.id))])) {
+            audioFeatures.set(features.id, features);
+          }
+        }
+
+        const target = file || `${fileNameFor(playlist.name)}.json`;
+        const format = writeExport(target, {
+          name: playlist.name,
+          description: playlist.description || undefined,
+          url: playlist.external_urls.spotify
+        }, tracks, audioFeatures);
+
+        spinner.succeed(`Exported ${tracks.length} tracks from ${chalk.bold(playlist.name)} to ${target} (${format.toUpperCase()})`);
+        if (skipped > 0) {
+          console.log(chalk.dim(`  Skipped ${skipped} local or unavailable ${skipped === 1 ? 'track' : 'tracks'}`));
+        }
+      } catch (err: any) {
+        spinner.fail('Export failed');
+        console.error(chalk.red(err.message));
+        process.exit(1);
+      }
+    });
+}
+
+// A playlist name as a safe file name ("Chill / Focus" -> "chill-focus")
+function fileNameFor(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'playlist';
+}
@@ -0,0 +1,102 @@
+import { Command } from 'commander';
+import ora from 'ora';
+import { spotifyClient } from '../lib/spotify-client';
+import { gatherListeningData, buildTasteProfile } from '../lib/taste-analyzer';
+import { GenreMatch, mapGenre, seedGenresFor, MIN_GENRE_SCORE } from '../lib/genre-taxonomy';
+import chalk from 'chalk';
+
+interface GenreMapping {
+  genre: string;
+  count?: number;  // Top artists with the genre
+  matches: GenreMatch[];
+}
+
+export function registerGenresCommand(program: Command): void {
+  program
+    .command('genres [genres...]')
+    .description('Show how your genres (or the given ones) map to the seed genres used for recommendations')
+    .option('-n, --limit <number>', 'How many of your top genres to show', '20')
+    .option('--available', 'List every seed genre Spotify accepts')
+    .option('--json', 'Output as JSON')
+    .action(async (genres: string[], options) => {
+      const spinner = ora('Connecting to Spotify...').start();
+
+      try {
+        const initialized = await spotifyClient.init();
+        if (!initialized) {
+          spinner.fail('Not authenticated');
+          console.log(chalk.dim('Run: spotify-gen auth'));
+          process.exit(1);
+        }
+
+        spinner.text = 'Fetching seed genres...';
+        const availableGenres = await spotifyClient.getAvailableGenres();
+
+        if (options.available) {
+          spinner.succeed(`${availableGenres.length} seed genres`);
+          if (options.json) {
+            console.log(JSON.stringify(availableGenres, null, 2));
+          } else {
+            console.log(`\n${availableGenres.join(', ')}\n`);
+          }
+          return;
+        }
+
+        // Without arguments, map the genres of the user's top artists
+        let sources: { genre: string; count?: number }[] = genres.map(genre => ({ genre }));
+        if (sources.length === 0) {
+          spinner.text = 'Fetching your listening history...';
+          const profile = buildTasteProfile(await gatherListeningData());
+          sources = profile.topGenres.slice(0, parseInt(options.limit) || 20);
+        }
+
+        const mappings: GenreMapping[] = sources.map(({ genre, count }) => ({
+          genre,
+          count,
+          matches: mapGenre(genre, availableGenres).filter(m => m.score >= MIN_GENRE_SCORE)
+        }));
+        const seeds = seedGenresFor(sources.map(s => s.genre), availableGenres, 5);
+
+        spinner.succeed('Genres mapped!');
+
+        if (options.json) {
+          console.log(JSON.stringify({ mappings, seeds }, null, 2));
+        } else {
+          printMappings(mappings, seeds, genres.length === 0);
+        }
+      } catch (err: any) {
+        spinner.fail('Mapping genres failed');
+        console.error(chalk.red(err.message));
+        process.exit(1);
+      }
+    });
+}
+
+function printMappings(mappings: GenreMapping[], seeds: string[], isTaste: boolean): void {
+  console.log(chalk.bold.cyan(`\n🏷️  ${isTaste ? 'Your Genres' : 'Genres'} → Seed Genres\n`));
+
+  const width = Math.min(30, Math.max(...mappings.map(m => m.genre.length)));
+  for (const { genre, count, matches } of mappings) {
+    const label = `${genre.padEnd(width)}${count !== undefined ? chalk.dim(` ${String(count).padStart(3)}`) : ''}`;
+    if (matches.length === 0) {
+      console.log(`  ${label}  ${chalk.yellow('no close seed genre')}`);
+      continue;
+    }
+
+    const [best, ...others] = matches;
+    const alternatives = others.map(m => `${m.seed} ${Math.round(m.score * 100)}%`).join(', ');
+    console.log(
+      `  ${label}  → ${chalk.green(best.seed)} ${Math.round(best.score * 100)}% ${chalk.dim(`(${best.reason})`)}` +
+      (alternatives ? chalk.dim(`  also ${alternatives}`) : '')
+    );
+  }
+
+  const unmapped = mappings.filter(m => m.matches.length === 0).length;
+  if (unmapped > 0) {
+    console.log(chalk.dim(`\n  ${unmapped} of ${mappings.length} genres have no seed genre and are left out of seeds`));
+  }
+  if (seeds.length > 0) {
+    console.log(`\n  ${isTaste ? 'Your' : 'Their'} seed genres: ${chalk.bold(seeds.join(', '))}`);
+  }
+  console.log('');
+}
@@ -0,0 +1,158 @@
+import { Command } from 'commander';
+import ora from 'ora';
+import fs from 'fs';
+import path from 'path';
+import { spotifyClient } from '../lib/spotify-client';
+import { resolvePlaylist } from '../lib/playlist-lookup';
+import { confirm } from '../lib/prompt';
+import {
+  ImportMatch,
+  parseImportFile,
+  matchEntries,
+  describeEntry,
+  CONFIDENT_MATCH_SCORE
+} from '../lib/playlist-import';
+import chalk from 'chalk';
+
+export function registerImportCommand(program: Command): void {
+  program
+    .command('import <file>')
+    .description('Create a Spotify playlist from a CSV, M3U, JSON or text file ("Artist - Title" per line)')
+    .option('-n, --name <name>', 'Playlist name (default: the file name)')
+    .option('--into <playlist>', 'Replace the tracks of an existing playlist (ID, URL or name) instead of creating one')
+    .option('--append', 'With --into, add the tracks to the existing ones instead of replacing them')
+    .option('--public', 'Make playlist public')
+    .option('--skip-uncertain', 'Leave out low-confidence matches instead of adding them')
+    .option('--report <file>', 'Write every entry and its match to a JSON file')
+    .option('--dry-run', 'Match the entries and show the report without saving anything to Spotify')
+    .action(async (file: string, options) => {
+      if (options.append && !options.into) {
+        console.log(chalk.red('--append needs --into <playlist>'));
+        process.exit(1);
+      }
+
+      const spinner = ora('Reading file...').start();
+
+      try {
+        const entries = parseImportFile(file);
+        if (entries.length === 0) {
+          spinner.fail(`No tracks found in ${file}`);
+          process.exit(1);
+        }
+
+        spinner.text = 'Connecting to Spotify...';
+        const initialized = await spotifyClient.init();
+        if (!initialized) {
+          spinner.fail('Not authenticated');
+          console.log(chalk.dim('Run: spotify-gen auth'));
+          process.exit(1);
+        }
+
+        spinner.text = `Matching ${entries.length} tracks...`;
+        const matches = await matchEntries(entries, done => {
+          spinner.text = `Matching tracks... ${done}/${entries.length}`;
+        });
+
+        const matched = matches.filter(m => m.track);
+        const uncertain = matched.filter(m => m.score < CONFIDENT_MATCH_SCORE);
+        const added = options.skipUncertain ? matched.filter(m => m.score >= CONFIDENT_MATCH_SCORE) : matched;
+
+        spinner.succeed(`Matched ${matched.length} of ${entries.length} tracks`);
+        printReport(matches, options.skipUncertain);
+
+        if (options.report) {
+          writeReport(options.report, matches);
+          console.log(chalk.green(`✓ Report saved to ${options.report}`));
+        }
+
+        if (added.length === 0) {
+          console.log(chalk.yellow('Nothing to add to Spotify'));
+          return;
+        }
+
+        if (options.dryRun) {
+          console.log(chalk.yellow('Dry run - nothing was written to Spotify'));
+          if (!await confirm(`Save ${added.length} tracks to Spotify?`)) {
+            return;
+          }
+        } else if (uncertain.length > 0 && !options.skipUncertain) {
+          console.log(chalk.dim(`${uncertain.length} low-confidence ${uncertain.length === 1 ? 'match is' : 'matches are'} included (leave them out with --skip-uncertain)`));
+        }
+
+        spinner.start('Saving playlist to Spotify...');
+        const uris = added.map(m => m.track!.uri);
+        const description = `Imported from ${path.basename(file)} | Generated by spotify-gen 🎵`;
+
+        if (options.into) {
+          const playlist = await resolvePlaylist(options.into);
+          if (options.append) {
+            await spotifyClient.addTracksToPlaylist(playlist.id, uris);
+          } else {
+            await spotifyClient.replacePlaylistTracks(playlist.id, uris);
+          }
+          spinner.succeed(`${options.append ? 'Added tracks to' : 'Updated'} playlist: ${chalk.bold(playlist.name)}`);
+          console.log(chalk.cyan(`  ${playlist.external_urls.spotify}`));
+        } else {
+          const name = options.name || path.basename(file, path.extname(file));
+          const user = await spotifyClient.getMe();
+          const playlist = await spotifyClient.createPlaylist(user.id, name, description, options.public);
+          await spotifyClient.addTracksToPlaylist(playlist.id, uris);
+          spinner.succeed(`Created playlist: ${chalk.bold(name)} (${uris.length} tracks)`);
+          console.log(chalk.cyan(`  ${playlist.external_urls.spotify}`));
+        }
+      } catch (err: any) {
+        spinner.fail('Import failed');
+        console.error(chalk.red(err.message));
+        process.exit(1);
+      }
+    });
+}
+
+function printReport(matches: ImportMatch[], skipUncertain: boolean): void {
+  const matched = matches.filter(m => m.track);
+  const confident = matched.filter(m => m.score >= CONFIDENT_MATCH_SCORE);
+  const uncertain = matched.filter(m => m.score < CONFIDENT_MATCH_SCORE);
+  const unmatched = matches.filter(m => !m.track);
+
+  console.log(
+    `\n  ${chalk.green(`✓ ${confident.length} matched`)}  ` +
+    `${chalk.yellow(`⚠ ${uncertain.length} to review`)}  ` +
+    `${chalk.red(`✗ ${unmatched.length} not found`)}`
+  );
+
+  if (uncertain.length > 0) {
+    console.log(chalk.bold.yellow(`\n⚠ Low-confidence matches${skipUncertain ? ' (left out)' : ' (added - check these)'}:`));
+    for (const match of uncertain) {
+      console.log(`  ${chalk.dim(`line ${String(match.entry.line).padEnd(4)}`)} ${describeEntry(match.entry)}`);
+      console.log(`            → ${describeTrack(match.track!)} ${chalk.yellow(`${Math.round(match.score * 100)}%`)}`);
+    }
+  }
+
+  if (unmatched.length > 0) {
+    console.log(chalk.bold.red('\n✗ Not found:'));
+    for (const match of unmatched) {
+      const closest = match.closest
+        ? chalk.dim(` (closest: ${describeTrack(match.closest)}, ${Math.round(match.score * 100)}%)`)
+        : '';
+      console.log(`  ${chalk.dim(`line ${String(match.entry.line).padEnd(4)}`)} ${describeEntry(match.entry)}${closest}`);
+    }
+  }
+  console.log('');
+}
+
+function writeReport(file: string, matches: ImportMatch[]): void {
+  const report = matches.map(match => ({
+    line: match.entry.line,
+    entry: describeEntry(match.entry),
+    status: !match.track ? 'not found' : match.score >= CONFIDENT_MATCH_SCORE ? 'matched' : 'review',
+    matchedBy: match.by,
+    score: Math.round(match.score * 100) / 100,
+    track: match.track ? { name: describeTrack(match.track), uri: match.track.uri } : undefined,
+    closest: match.closest ? { name: describeTrack(match.closest), uri: match.closest.uri } : undefined
+  }));
+  fs.writeFileSync(file, JSON.stringify(report, null, 2) + '\n');
+}
+
+function describeTrack(track: { name: string; artists: { name: string }[] }): string {
+  return `${track.artists.map(a => a.name).join(', ')} - ${track.name}`;
+}
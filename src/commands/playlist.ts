@@ -1,88 +1,172 @@
 import { Command } from 'commander';
 import ora from 'ora';
 import chalk from 'chalk';
+import path from 'path';
 import { spotifyClient } from '../lib/spotify-client';
-import { generatePlaylist, formatTrackList } from '../lib/playlist-generator';
-import { PlaylistOptions } from '../types/spotify';
+import { planPlaylist, publishPlaylist, formatTrackList, resolveTimeMachineYears, EXCLUDE_SOURCES } from '../lib/playlist-generator';
+import { confirm } from '../lib/prompt';
+import { exportFormatFor, writeExport } from '../lib/playlist-export';
+import { ACTIVITY_PRESETS, formatValue, listPresetNames } from '../lib/presets';
+import { PresetKind, loadUserPresets } from '../lib/user-presets';
+import { PlanExplanation, PlaylistOptions, PlaylistPlan, ProfileCompatibility, VibeIntent, WeightedIntent } from '../types/spotify';
 
-const MOODS = ['happy', 'sad', 'energetic', 'chill', 'angry', 'romantic'] as const;
-const ACTIVITIES = ['workout', 'focus', 'party', 'sleep', 'commute', 'cooking'] as const;
-const TIMES = ['morning', 'afternoon', 'evening', 'night'] as const;
+// Only built-in activities get shortcut subcommands, so custom names can't shadow other commands
+const ACTIVITY_SHORTCUTS = Object.keys(ACTIVITY_PRESETS);
+
+// Preset subcommands leave the default to the preset, falling back to 25 tracks
+const PRESET_TRACKS_HELP = 'Number of tracks (default: the preset\'s, or 25)';
+
+// How a generated playlist is delivered (as opposed to what goes into it)
+export interface RunOptions {
+  dryRun?: boolean;
+  into?: string;
+  append?: boolean;
+  export?: string;  // File to write the track list to (format from the extension)
+}
+
+type PlaylistHandler = (options: PlaylistOptions, run: RunOptions) => Promise<void>;
 
 export function registerPlaylistCommand(program: Command): void {
   const playlist = program
     .command('playlist')
     .description('Generate a personalized playlist');
 
+  definePlaylistSubcommands(playlist, createPlaylist);
+
+  // Show the resolved plan for any other playlist subcommand, without saving anything
+  playlist
+    .command('explain <args...>')
+    .description('Show the seeds, targets and their sources a playlist command would use (e.g. explain mood happy --tracks 30)')
+    .option('--json', 'Output as JSON (e.g. to diff plans between runs)')
+    .allowUnknownOption()
+    .action(async (args, options) => {
+      await explainPlaylist(args, options.json);
+    });
+}
+
+// Parse playlist subcommand arguments (e.g. ["mood", "happy", "--tracks", "30"])
+// into options without generating anything
+export async function parsePlaylistArgs(args: string[]): Promise<{ options: PlaylistOptions; run: RunOptions }> {
+  let parsed: { options: PlaylistOptions; run: RunOptions } | undefined;
+
+  const parser = new Command('playlist').exitOverride();
+  definePlaylistSubcommands(parser, async (options, run) => {
+    parsed = { options, run };
+  });
+
+  await parser.parseAsync(args, { from: 'user' });
+
+  if (!parsed) {
+    throw new Error('Expected a playlist subcommand, e.g. "mood happy --tracks 30"');
+  }
+  return parsed;
+}
+
+function definePlaylistSubcommands(playlist: Command, handler: PlaylistHandler): void {
+
   // Mood-based playlist
   playlist
     .command('mood <mood>')
-    .description(`Generate playlist by mood (${MOODS.join(', ')})`)
-    .option('-t, --tracks <number>', 'Number of tracks', '25')
+    .description(`Generate playlist by mood (${listPresetNames('mood').join(', ')})`)
+    .option('-t, --tracks <number>', PRESET_TRACKS_HELP)
+    .option('--duration <minutes>', 'Target duration in minutes')
     .option('-n, --name <name>', 'Playlist name')
     .option('-d, --discover', 'Include less popular tracks')
     .option('--public', 'Make playlist public')
     .action(async (mood, options) => {
-      if (!MOODS.includes(mood)) {
-        console.log(chalk.red(`Invalid mood. Choose from: ${MOODS.join(', ')}`));
-        process.exit(1);
-      }
+      checkPreset('mood', mood);
 
-      await createPlaylist({
-        mood: mood as any,
-        trackCount: parseInt(options.tracks),
+      await handler({
+        mood,
+        ...sizeOptions(options),
         name: options.name,
         discover: options.discover,
-        public: options.public
-      });
+        public: options.public,
+        ...sharedOptions(options)
+      }, runOptions(options));
     });
 
   // Activity-based playlist
   playlist
     .command('activity <activity>')
-    .alias(ACTIVITIES.join('|'))
-    .description(`Generate playlist for activity (${ACTIVITIES.join(', ')})`)
-    .option('-t, --tracks <number>', 'Number of tracks', '25')
+    .alias(ACTIVITY_SHORTCUTS.join('|'))
+    .description(`Generate playlist for activity (${listPresetNames('activity').join(', ')})`)
+    .option('-t, --tracks <number>', PRESET_TRACKS_HELP)
     .option('--duration <minutes>', 'Target duration in minutes')
     .option('-n, --name <name>', 'Playlist name')
     .option('-d, --discover', 'Include less popular tracks')
     .option('--public', 'Make playlist public')
     .action(async (activity, options) => {
-      if (!ACTIVITIES.includes(activity)) {
-        console.log(chalk.red(`Invalid activity. Choose from: ${ACTIVITIES.join(', ')}`));
-        process.exit(1);
-      }
+      checkPreset('activity', activity);
 
-      await createPlaylist({
-        activity: activity as any,
-        trackCount: options.duration ? undefined : parseInt(options.tracks),
-        duration: options.duration ? parseInt(options.duration) : undefined,
+      await handler({
+        activity,
+        ...sizeOptions(options),
         name: options.name,
         discover: options.discover,
-        public: options.public
-      });
+        public: options.public,
+        ...sharedOptions(options)
+      }, runOptions(options));
     });
 
   // Shortcut commands for common activities
-  for (const activity of ACTIVITIES) {
+  for (const activity of ACTIVITY_SHORTCUTS) {
     playlist
       .command(activity)
       .description(`Generate ${activity} playlist`)
-      .option('-t, --tracks <number>', 'Number of tracks', '25')
+      .option('-t, --tracks <number>', PRESET_TRACKS_HELP)
       .option('--duration <minutes>', 'Target duration in minutes')
       .option('-d, --discover', 'Include less popular tracks')
       .option('--public', 'Make playlist public')
       .action(async (options) => {
-        await createPlaylist({
-          activity: activity as any,
-          trackCount: options.duration ? undefined : parseInt(options.tracks),
-          duration: options.duration ? parseInt(options.duration) : undefined,
+        checkPreset('activity', activity);
+
+        await handler({
+          activity,
+          ...sizeOptions(options),
           discover: options.discover,
-          public: options.public
-        });
+          public: options.public,
+          ...sharedOptions(options)
+        }, runOptions(options));
       });
   }
 
+  // Running - tempos matched to a step cadence
+  playlist
+    .command('run')
+    .description('Generate a running playlist matched to your cadence (steps per minute)')
+    .requiredOption('-c, --cadence <spm>', 'Cadence to match in steps per minute (e.g. 165)')
+    .option('--tolerance <bpm>', 'Allowed BPM difference from the cadence', '4')
+    .option('--progressive <spm>', 'Ramp the cadence to this value across the playlist (interval training)')
+    .option('-t, --tracks <number>', 'Number of tracks', '25')
+    .option('--duration <minutes>', 'Target duration in minutes')
+    .option('-n, --name <name>', 'Playlist name')
+    .option('--public', 'Make playlist public')
+    .action(async (options) => {
+      const cadence = parseInt(options.cadence);
+      const cadenceEnd = options.progressive ? parseInt(options.progressive) : undefined;
+      if (isNaN(cadence) || (cadenceEnd !== undefined && isNaN(cadenceEnd))) {
+        console.log(chalk.red('Cadence must be a number of steps per minute (e.g. 165)'));
+        process.exit(1);
+      }
+      const cadenceTolerance = parseFloat(options.tolerance);
+      if (isNaN(cadenceTolerance) || cadenceTolerance < 0) {
+        console.log(chalk.red('Tolerance must be a BPM difference of 0 or more (e.g. 4)'));
+        process.exit(1);
+      }
+
+      await handler({
+        cadence,
+        cadenceEnd,
+        cadenceTolerance,
+        trackCount: options.duration ? undefined : parseInt(options.tracks),
+        duration: options.duration ? parseInt(options.duration) : undefined,
+        name: options.name,
+        public: options.public,
+        ...sharedOptions(options)
+      }, runOptions(options));
+    });
+
   // Discovery mode
   playlist
     .command('discover')
@@ -92,13 +176,14 @@ export function registerPlaylistCommand(program: Command): void {
     .option('-n, --name <name>', 'Playlist name')
     .option('--public', 'Make playlist public')
     .action(async (options) => {
-      await createPlaylist({
+      await handler({
         discover: true,
         trackCount: parseInt(options.tracks),
         basedOn: options.basedOn,
         name: options.name || 'Discovery Mix',
-        public: options.public
-      });
+        public: options.public,
+        ...sharedOptions(options)
+      }, runOptions(options));
     });
 
   // "Vibe" - natural language description
@@ -111,36 +196,36 @@ export function registerPlaylistCommand(program: Command): void {
     .option('--public', 'Make playlist public')
     .action(async (description, options) => {
       const vibe = description.join(' ');
-      await createPlaylist({
+      await handler({
         vibe,
         trackCount: parseInt(options.tracks),
         name: options.name,
         discover: options.discover,
-        public: options.public
-      });
+        public: options.public,
+        ...sharedOptions(options)
+      }, runOptions(options));
     });
 
   // Time-based playlist
   playlist
     .command('time <timeOfDay>')
-    .description(`Generate playlist for time of day (${TIMES.join(', ')})`)
-    .option('-t, --tracks <number>', 'Number of tracks', '25')
+    .description(`Generate playlist for time of day (${listPresetNames('time').join(', ')})`)
+    .option('-t, --tracks <number>', PRESET_TRACKS_HELP)
+    .option('--duration <minutes>', 'Target duration in minutes')
     .option('-n, --name <name>', 'Playlist name')
     .option('-d, --discover', 'Include less popular tracks')
     .option('--public', 'Make playlist public')
     .action(async (timeOfDay, options) => {
-      if (!TIMES.includes(timeOfDay)) {
-        console.log(chalk.red(`Invalid time. Choose from: ${TIMES.join(', ')}`));
-        process.exit(1);
-      }
+      checkPreset('time', timeOfDay);
 
-      await createPlaylist({
-        timeOfDay: timeOfDay as any,
-        trackCount: parseInt(options.tracks),
+      await handler({
+        timeOfDay,
+        ...sizeOptions(options),
         name: options.name,
         discover: options.discover,
-        public: options.public
-      });
+        public: options.public,
+        ...sharedOptions(options)
+      }, runOptions(options));
     });
 
   // Similar to artist/track
@@ -159,67 +244,125 @@ export function registerPlaylistCommand(program: Command): void {
         basedOn = `artist:${query}`;
       }
 
-      await createPlaylist({
+      await handler({
         basedOn,
         trackCount: parseInt(options.tracks),
         name: options.name,
         discover: options.discover,
-        public: options.public
-      });
+        public: options.public,
+        ...sharedOptions(options)
+      }, runOptions(options));
     });
 
-  // Blend playlist - combine your taste with artists
+  // Blend playlist - combine your taste with artists and/or friends' exported profiles
   playlist
-    .command('blend <artists...>')
-    .description('Create a blended playlist combining your taste with specified artists')
+    .command('blend [artists...]')
+    .description('Create a blended playlist combining your taste with specified artists or friends\' taste profiles')
+    .option('--with-profile <file>', 'Blend in a profile exported with "analyze --export"; repeatable', collect, [])
     .option('-t, --tracks <number>', 'Number of tracks', '30')
     .option('-n, --name <name>', 'Playlist name')
     .option('--public', 'Make playlist public')
     .action(async (artists, options) => {
-      console.log(chalk.cyan(`\n🎧 Blending your taste with: ${artists.join(', ')}\n`));
+      const profiles: string[] = options.withProfile.map((file: string) => path.resolve(file));
+      if (artists.length === 0 && profiles.length === 0) {
+        console.log(chalk.red('Must specify artists to blend with and/or --with-profile <file>'));
+        console.log(chalk.dim('\nExamples:'));
+        console.log(chalk.dim('  spotify-gen playlist blend "Radiohead" "Bonobo"'));
+        console.log(chalk.dim('  spotify-gen playlist blend --with-profile friend.json'));
+        process.exit(1);
+      }
+
+      const names = [...artists, ...profiles.map(f => path.basename(f))];
+      console.log(chalk.cyan(`\n🎧 Blending your taste with: ${names.join(', ')}\n`));
       
-      await createPlaylist({
-        blendWith: artists,
+      await handler({
+        blendWith: artists.length > 0 ? artists : undefined,
+        withProfiles: profiles.length > 0 ? profiles : undefined,
         trackCount: parseInt(options.tracks),
         name: options.name,
-        public: options.public
-      });
+        public: options.public,
+        ...sharedOptions(options)
+      }, runOptions(options));
     });
 
-  // Time machine - songs from your high school years
+  // Listening mode - more music like one cluster of your listening (see: analyze)
+  playlist
+    .command('mode <number>')
+    .description('Generate more music from one of your listening modes (numbered in "spotify-gen analyze")')
+    .option('-t, --tracks <number>', 'Number of tracks', '25')
+    .option('--duration <minutes>', 'Target duration in minutes')
+    .option('-n, --name <name>', 'Playlist name')
+    .option('--public', 'Make playlist public')
+    .action(async (mode, options) => {
+      const listeningMode = parseInt(mode);
+      if (!(listeningMode >= 1)) {
+        console.log(chalk.red(`Invalid listening mode "${mode}". Use its number from: spotify-gen analyze`));
+        process.exit(1);
+      }
+
+      console.log(chalk.cyan(`\n🧭 More from listening mode ${listeningMode}\n`));
+
+      await handler({
+        listeningMode,
+        ...sizeOptions(options),
+        name: options.name,
+        public: options.public,
+        ...sharedOptions(options)
+      }, runOptions(options));
+    });
+
+  // Time machine - songs from your high school years, a year or a decade
   playlist
     .command('timemachine')
-    .description('Generate a playlist from your high school years or a specific year')
+    .description('Generate a playlist of your kind of songs from your high school years, a specific year or a decade')
     .option('-b, --born <year>', 'Your birth year (calculates high school years)')
+    .option('--age-range <ages>', 'Ages to cover with --born instead of 14-18 (e.g. 20-25, at most 15 years)')
     .option('-y, --year <year>', 'Specific year to pull songs from')
+    .option('--decade <decade>', 'Decade to pull songs from (e.g. 1990s)')
     .option('-t, --tracks <number>', 'Number of tracks', '30')
     .option('-n, --name <name>', 'Playlist name')
     .option('--public', 'Make playlist public')
     .action(async (options) => {
-      if (!options.born && !options.year) {
-        console.log(chalk.red('Must specify either --born <year> or --year <year>'));
+      if (!options.born && !options.year && !options.decade) {
+        console.log(chalk.red('Must specify --born <year>, --year <year> or --decade <decade>'));
         console.log(chalk.dim('\nExamples:'));
         console.log(chalk.dim('  spotify-gen playlist timemachine --born 1995'));
+        console.log(chalk.dim('  spotify-gen playlist timemachine --born 1995 --age-range 20-25'));
         console.log(chalk.dim('  spotify-gen playlist timemachine --year 2010'));
+        console.log(chalk.dim('  spotify-gen playlist timemachine --decade 1980s'));
         process.exit(1);
       }
 
-      if (options.born) {
-        const birthYear = parseInt(options.born);
-        const hsStart = birthYear + 14;
-        const hsEnd = birthYear + 18;
-        console.log(chalk.cyan(`\n⏰ Time machine: Your high school years (${hsStart}-${hsEnd})\n`));
-      } else {
-        console.log(chalk.cyan(`\n⏰ Time machine: Hits from ${options.year}\n`));
-      }
-
-      await createPlaylist({
+      const timeMachine: Partial<PlaylistOptions> = {
         birthYear: options.born ? parseInt(options.born) : undefined,
+        ageRange: options.ageRange,
         targetYear: options.year ? parseInt(options.year) : undefined,
+        decade: options.decade
+      };
+
+      try {
+        const years = resolveTimeMachineYears(timeMachine);
+        if (timeMachine.targetYear) {
+          console.log(chalk.cyan(`\n⏰ Time machine: Your kind of songs from ${timeMachine.targetYear}\n`));
+        } else if (timeMachine.decade) {
+          console.log(chalk.cyan(`\n⏰ Time machine: Your kind of songs from the ${years.from}s\n`));
+        } else if (timeMachine.ageRange) {
+          console.log(chalk.cyan(`\n⏰ Time machine: When you were ${years.ages!.from}-${years.ages!.to} (${years.from}-${years.to})\n`));
+        } else {
+          console.log(chalk.cyan(`\n⏰ Time machine: Your high school years (${years.from}-${years.to})\n`));
+        }
+      } catch (err: any) {
+        console.log(chalk.red(err.message));
+        process.exit(1);
+      }
+
+      await handler({
+        ...timeMachine,
         trackCount: parseInt(options.tracks),
         name: options.name,
-        public: options.public
-      });
+        public: options.public,
+        ...sharedOptions(options)
+      }, runOptions(options));
     });
 
   // Genre deep dive - find deeper cuts in a genre
@@ -234,17 +377,142 @@ export function registerPlaylistCommand(program: Command): void {
       const isDeepCuts = !options.popular;
       console.log(chalk.cyan(`\n🎸 Genre deep dive: ${genre} ${isDeepCuts ? '(hidden gems)' : '(popular tracks)'}\n`));
 
-      await createPlaylist({
+      await handler({
         genre,
         deepCuts: isDeepCuts,
         trackCount: parseInt(options.tracks),
         name: options.name,
-        public: options.public
-      });
+        public: options.public,
+        ...sharedOptions(options)
+      }, runOptions(options));
     });
+
+  // Options shared by every playlist subcommand
+  for (const command of playlist.commands) {
+    command
+      .option('--mood <mood[:weight]>', 'Blend in a mood, optionally weighted (e.g. chill:0.7); repeatable', collect, [])
+      .option('--activity <activity[:weight]>', 'Blend in an activity (e.g. focus:0.3); repeatable', collect, [])
+      .option('--time <time[:weight]>', 'Blend in a time of day (e.g. night); repeatable', collect, [])
+      .option('--exclude <sources>', `Leave out tracks you already know (comma-separated: ${EXCLUDE_SOURCES.join(', ')})`)
+      .option('--max-per-artist <n>', 'Most tracks allowed from any one artist')
+      .option('--max-per-album <n>', 'Most tracks allowed from any one album')
+      .option('--artist-spacing <k>', 'Keep tracks by the same artist at least this many slots apart')
+      .option('--strict', 'Only keep tracks that meet the mood/activity targets, even if the playlist comes out short')
+      .option('--feature-weights <weights>', 'Weights for re-ranking tracks (e.g. "energy=2,valence=0.5")')
+      .option('--max-deviation <amount>', 'Reject tracks further than this from any target feature (0-1)')
+      .option('--range <range>', 'Build your taste from short (4 weeks), medium (6 months), long (all time) or all listening')
+      .option('--weights <weights>', 'How much each time range counts in your taste (e.g. "short=1,long=3")')
+      .option('--within [percentiles]', 'Keep audio features inside this range of your own listening (default: p10-p90)')
+      .option('--arc <curve>', 'Energy arc to order tracks by (workout, party, sleep, none, or e.g. "0.4,0.9,0.3")')
+      .option('--harmonic', 'Order tracks for harmonic mixing (Camelot wheel) and show key/BPM')
+      .option('--into <playlist>', 'Replace the tracks of an existing playlist (ID, URL or name) instead of creating one')
+      .option('--append', 'With --into, add the tracks to the existing ones instead of replacing them')
+      .option('--dry-run', 'Preview the track list without saving it to Spotify')
+      .option('--export <file>', 'Also write the track list to a file (.m3u, .m3u8, .xspf, .csv or .json)');
+  }
 }
 
-async function createPlaylist(options: PlaylistOptions): Promise<void> {
+// Exit with a helpful message for an unknown preset or a broken presets file
+function checkPreset(kind: PresetKind, name: string): void {
+  try {
+    loadUserPresets();
+  } catch (err: any) {
+    console.log(chalk.red(err.message));
+    process.exit(1);
+  }
+
+  const names = listPresetNames(kind);
+  if (!names.includes(name)) {
+    console.log(chalk.red(`Invalid ${kind}. Choose from: ${names.join(', ')}`));
+    process.exit(1);
+  }
+}
+
+// --tracks/--duration for preset subcommands (and recipe overrides); both unset leaves the size to the preset
+export function sizeOptions(options: any): Pick<PlaylistOptions, 'trackCount' | 'duration'> {
+  if (options.duration) {
+    return { trackCount: undefined, duration: positiveInt(options.duration, '--duration') };
+  }
+  return { trackCount: positiveInt(options.tracks, '--tracks'), duration: undefined };
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+// "chill:0.7" -> { name: 'chill', weight: 0.7 }; the weight defaults to 1
+function parseModifiers(kind: WeightedIntent['kind'], values: string[] = []): WeightedIntent[] {
+  return values.map(value => {
+    const [name, weight] = value.split(':');
+    return { kind, name: name.trim().toLowerCase(), weight: weight === undefined ? 1 : parseFloat(weight) };
+  });
+}
+
+// A whole number of 1 or more, or undefined when the option wasn't given; exits otherwise
+function positiveInt(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    console.log(chalk.red(`${flag} must be a whole number of 1 or more`));
+    process.exit(1);
+  }
+  return number;
+}
+
+// Generation options accepted by every subcommand
+function sharedOptions(options: any): Partial<PlaylistOptions> {
+  const modifiers = [
+    ...parseModifiers('mood', options.mood),
+    ...parseModifiers('activity', options.activity),
+    ...parseModifiers('time', options.time)
+  ];
+
+  const maxDeviation = options.maxDeviation ? parseFloat(options.maxDeviation) : undefined;
+  if (maxDeviation !== undefined && !(maxDeviation >= 0 && maxDeviation <= 1)) {
+    console.log(chalk.red('--max-deviation must be a number from 0 to 1'));
+    process.exit(1);
+  }
+
+  return {
+    modifiers: modifiers.length > 0 ? modifiers : undefined,
+    exclude: options.exclude ? options.exclude.split(',').map((s: string) => s.trim()) : undefined,
+    maxPerArtist: positiveInt(options.maxPerArtist, '--max-per-artist'),
+    maxPerAlbum: positiveInt(options.maxPerAlbum, '--max-per-album'),
+    artistSpacing: positiveInt(options.artistSpacing, '--artist-spacing'),
+    strict: options.strict,
+    featureWeights: options.featureWeights,
+    maxDeviation,
+    within: options.within === true ? 'p10-p90' : options.within,
+    range: options.range,
+    rangeWeights: options.weights,
+    arc: options.arc,
+    harmonic: options.harmonic
+  };
+}
+
+function runOptions(options: any): RunOptions {
+  return {
+    dryRun: options.dryRun,
+    into: options.into,
+    append: options.append,
+    export: options.export
+  };
+}
+
+export async function createPlaylist(options: PlaylistOptions, run: RunOptions = {}): Promise<void> {
+  if (run.append && !run.into) {
+    console.log(chalk.red('--append needs --into <playlist>'));
+    process.exit(1);
+  }
+  if (run.export) {
+    try {
+      exportFormatFor(run.export);
+    } catch (err: any) {
+      console.log(chalk.red(err.message));
+      process.exit(1);
+    }
+  }
+
   const spinner = ora('Connecting to Spotify...').start();
 
   try {
@@ -262,17 +530,44 @@ async function createPlaylist(options: PlaylistOptions): Promise<void> {
     
     spinner.text = 'Generating personalized playlist...';
 
-    const result = await generatePlaylist(options);
+    const plan = await planPlaylist(options);
 
-    spinner.succeed(`Created playlist: ${chalk.bold(result.playlistName)}`);
+    // Exported before saving, so a declined dry run still leaves the file
+    if (run.export) {
+      writeExport(run.export, { name: plan.playlistName, description: plan.description }, plan.tracks, plan.audioFeatures);
+    }
 
-    console.log('');
-    console.log(formatTrackList(result.tracks));
-    console.log('');
+    if (run.dryRun) {
+      spinner.succeed(`Planned playlist: ${chalk.bold(plan.playlistName)}`);
+      printTrackList(plan, options);
+      if (run.export) {
+        console.log(chalk.green(`✓ Track list exported to ${run.export}`));
+      }
+      console.log(chalk.yellow('Dry run - nothing was written to Spotify'));
+
+      // Offer to save the exact track list that was just previewed
+      if (!await confirm('Save this playlist to Spotify?')) {
+        return;
+      }
+      spinner.start('Saving playlist to Spotify...');
+    } else {
+      spinner.text = 'Saving playlist to Spotify...';
+    }
+
+    const { playlistUrl, playlistName, updated } = await publishPlaylist(plan, run);
+
+    spinner.succeed(updated
+      ? `${run.append ? 'Added tracks to' : 'Updated'} playlist: ${chalk.bold(playlistName)}`
+      : `Created playlist: ${chalk.bold(playlistName)}`);
+
+    if (!run.dryRun) {
+      printTrackList(plan, options);
+    }
 
-    if (result.playlistUrl) {
-      console.log(chalk.green('✓ Playlist saved to your Spotify library'));
-      console.log(chalk.cyan(`  ${result.playlistUrl}`));
+    console.log(chalk.green('✓ Playlist saved to your Spotify library'));
+    console.log(chalk.cyan(`  ${playlistUrl}`));
+    if (run.export && !run.dryRun) {
+      console.log(chalk.green(`✓ Track list exported to ${run.export}`));
     }
 
   } catch (err: any) {
@@ -284,3 +579,181 @@ async function createPlaylist(options: PlaylistOptions): Promise<void> {
     process.exit(1);
   }
 }
+
+// How the vibe was read, with the parser's confidence for each value
+function describeVibe(vibe: VibeIntent): string {
+  const parts: string[] = [];
+
+  for (const [feature, target] of Object.entries(vibe.targets)) {
+    const key = `target_${feature}`;
+    parts.push(`${feature} ${formatValue(key, target!.value)} ${chalk.dim(`("${target!.sources.join('", "')}", ${Math.round(target!.confidence * 100)}%)`)}`);
+  }
+  if (vibe.popularity) {
+    const bound = vibe.popularity.max !== undefined ? `≤ ${vibe.popularity.max}` : `≥ ${vibe.popularity.min}`;
+    parts.push(`popularity ${bound} ${chalk.dim(`("${vibe.popularity.source}")`)}`);
+  }
+  if (vibe.genres.length > 0) {
+    parts.push(`genres ${vibe.genres.map(g => g.genre).join(', ')}`);
+  }
+  if (vibe.reference) {
+    const adjustments = Object.entries(vibe.reference.adjustments)
+      .map(([feature, delta]) => `${feature} ${delta! > 0 ? '+' : ''}${feature === 'tempo' ? Math.round(delta!) : delta!.toFixed(2)}`);
+    parts.push(`like ${vibe.reference.name}${adjustments.length > 0 ? ` (${adjustments.join(', ')})` : ''}`);
+  }
+  if (vibe.years) {
+    parts.push(vibe.years.from === vibe.years.to ? String(vibe.years.from) : `${vibe.years.from}-${vibe.years.to}`);
+  }
+
+  return parts.length > 0 ? parts.join(chalk.dim(' · ')) : chalk.dim('nothing recognised');
+}
+
+function printTrackList(plan: PlaylistPlan, options: PlaylistOptions): void {
+  // Show how several intents were blended
+  const composition = plan.composition;
+  if (composition && composition.intents.length > 1) {
+    const totalWeight = composition.intents.reduce((sum, i) => sum + i.weight, 0);
+    const blend = composition.intents
+      .map(i => `${i.label} ${Math.round((i.weight / totalWeight) * 100)}%`)
+      .join(chalk.dim(' · '));
+    const targets = Object.entries(composition.params)
+      .map(([key, value]) => Array.isArray(value)
+        ? `${key.replace(/^seed_/, '')} ${value.join(', ')}`
+        : `${key.replace(/^target_/, '')} ${formatValue(key, value as number)}`)
+      .join(chalk.dim(' · '));
+
+    console.log('');
+    console.log(`${chalk.bold('🎛️  Blend:')} ${blend}`);
+    console.log(`${chalk.bold('🎯 Targets:')} ${targets}`);
+  }
+
+  if (plan.vibe) {
+    console.log('');
+    console.log(`${chalk.bold('💬 Vibe:')} ${describeVibe(plan.vibe)}`);
+  }
+
+  if (plan.compatibility) {
+    printCompatibility(plan.compatibility);
+  }
+
+  console.log('');
+  console.log(formatTrackList(plan.tracks, options.harmonic ? plan.audioFeatures : undefined));
+  console.log('');
+
+  for (const warning of plan.warnings || []) {
+    console.log(chalk.yellow(`⚠ ${warning}`));
+  }
+}
+
+function printCompatibility(compatibility: ProfileCompatibility): void {
+  const color = compatibility.score >= 70 ? chalk.green : compatibility.score >= 40 ? chalk.yellow : chalk.red;
+
+  console.log('');
+  console.log(`${chalk.bold('🤝 Group compatibility:')} ${color(`${compatibility.score}%`)}`);
+  if (compatibility.pairs.length > 1) {
+    for (const pair of compatibility.pairs) {
+      console.log(chalk.dim(`   ${pair.a} + ${pair.b}: ${pair.score}%`));
+    }
+  }
+  if (compatibility.sharedGenres.length > 0) {
+    console.log(chalk.dim(`   Shared genres: ${compatibility.sharedGenres.slice(0, 5).join(', ')}`));
+  } else {
+    console.log(chalk.dim('   No genres in common - seeds are shared out instead'));
+  }
+}
+
+async function explainPlaylist(args: string[], json: boolean): Promise<void> {
+  let options: PlaylistOptions;
+  try {
+    ({ options } = await parsePlaylistArgs(args));
+  } catch (err: any) {
+    console.error(chalk.red(err.message));
+    process.exit(1);
+  }
+
+  const spinner = ora('Connecting to Spotify...').start();
+
+  try {
+    const initialized = await spotifyClient.init();
+    if (!initialized) {
+      spinner.fail('Not authenticated');
+      console.log(chalk.dim('Run: spotify-gen auth'));
+      process.exit(1);
+    }
+
+    spinner.text = 'Planning playlist...';
+    const plan = await planPlaylist(options);
+    const explanation = plan.explanation!;
+
+    spinner.text = 'Looking up seed names...';
+    await resolveSeedNames(explanation);
+    spinner.stop();
+
+    if (json) {
+      console.log(JSON.stringify({
+        playlistName: plan.playlistName,
+        ...explanation,
+        tracks: plan.tracks.map(t => ({ id: t.id, name: t.name, artists: t.artists.map(a => a.name) })),
+        warnings: plan.warnings || []
+      }, null, 2));
+    } else {
+      printExplanation(plan, explanation);
+    }
+  } catch (err: any) {
+    spinner.fail('Failed to plan playlist');
+    console.error(chalk.red(err.message));
+    process.exit(1);
+  }
+}
+
+async function resolveSeedNames(explanation: PlanExplanation): Promise<void> {
+  const artistIds = explanation.seeds.filter(s => s.type === 'artist').map(s => s.id);
+  const trackIds = explanation.seeds.filter(s => s.type === 'track').map(s => s.id);
+
+  const artists = new Map((await spotifyClient.getArtists(artistIds)).map(a => [a.id, a.name]));
+  const tracks = new Map((await spotifyClient.getTracks(trackIds))
+    .map(t => [t.id, `${t.name} — ${t.artists.map(a => a.name).join(', ')}`]));
+
+  for (const seed of explanation.seeds) {
+    seed.name = seed.type === 'artist' ? artists.get(seed.id)
+      : seed.type === 'track' ? tracks.get(seed.id)
+      : seed.id;
+  }
+}
+
+function printExplanation(plan: PlaylistPlan, explanation: PlanExplanation): void {
+  console.log(chalk.bold(`\n🔍 ${plan.playlistName}`) + chalk.dim(` (${explanation.type}, ${plan.tracks.length} tracks planned)\n`));
+
+  if (explanation.seeds.length > 0) {
+    console.log(chalk.bold('Seeds'));
+    const width = Math.max(...explanation.seeds.map(s => (s.name || s.id).length));
+    for (const seed of explanation.seeds) {
+      const marker = seed.random ? '🎲' : '  ';
+      console.log(`  ${marker} ${seed.type.padEnd(6)} ${(seed.name || seed.id).padEnd(width)}  ${chalk.dim(seed.source)}`);
+    }
+    console.log('');
+  }
+
+  const params = Object.entries(explanation.params || {}).filter(([key]) => !key.startsWith('seed_'));
+  if (params.length > 0) {
+    console.log(chalk.bold('Parameters'));
+    const width = Math.max(...params.map(([key]) => key.length));
+    for (const [key, value] of params) {
+      const formatted = key === 'limit' ? String(value) : formatValue(key, value as number);
+      const source = explanation.sources[key] || 'default';
+      console.log(`  ${key.padEnd(width)}  ${formatted.padEnd(8)}  ${chalk.dim(source)}`);
+    }
+    console.log('');
+  }
+
+  for (const note of explanation.notes) {
+    console.log(chalk.dim(`• ${note}`));
+  }
+  for (const warning of plan.warnings || []) {
+    console.log(chalk.yellow(`⚠ ${warning}`));
+  }
+
+  if (explanation.seeds.some(s => s.random)) {
+    console.log(chalk.dim('\n🎲 Picked at random from your taste profile, so these change between runs'));
+  }
+  console.log('');
+}
@@ -0,0 +1,140 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { createPlaylist, parsePlaylistArgs, sizeOptions } from './playlist';
+import { getRecipes, saveRecipe, deleteRecipe, RECIPE_VERSION } from '../lib/config';
+import { Recipe } from '../types/spotify';
+
+export function registerRecipeCommand(program: Command): void {
+  const recipe = program
+    .command('recipe')
+    .description('Save playlist commands by name and re-run them');
+
+  recipe
+    .command('save <name> <args...>')
+    .description('Save a playlist command as a recipe (e.g. recipe save deep-work -- activity focus --duration 90)')
+    .option('-f, --force', 'Overwrite an existing recipe with the same name')
+    .action(async (name, args, options) => {
+      if (getRecipes()[name] && !options.force) {
+        console.log(chalk.red(`Recipe "${name}" already exists. Use --force to overwrite it.`));
+        process.exit(1);
+      }
+
+      try {
+        saveRecipe(name, await buildRecipe(args));
+      } catch (err: any) {
+        console.error(chalk.red(`Could not save recipe: ${err.message}`));
+        process.exit(1);
+      }
+
+      console.log(chalk.green(`✓ Saved recipe "${name}"`));
+      console.log(chalk.dim(`  spotify-gen playlist ${formatArgs(args)}`));
+      console.log(chalk.dim(`  Run it with: spotify-gen recipe run ${name}`));
+    });
+
+  recipe
+    .command('list')
+    .description('List saved recipes')
+    .action(() => {
+      const recipes = Object.entries(getRecipes());
+
+      if (recipes.length === 0) {
+        console.log(chalk.dim('No recipes saved yet. Try: spotify-gen recipe save <name> -- mood happy'));
+        return;
+      }
+
+      console.log(chalk.bold('\n📒 Saved Recipes\n'));
+      const width = Math.max(...recipes.map(([name]) => name.length));
+      for (const [name, saved] of recipes) {
+        const target = saved.run?.into
+          ? chalk.dim(` → ${saved.run.append ? 'append to' : 'into'} "${saved.run.into}"`)
+          : '';
+        console.log(`  ${chalk.cyan(name.padEnd(width))}  ${chalk.dim('playlist')} ${formatArgs(saved.args)}${target}`);
+      }
+      console.log('');
+    });
+
+  recipe
+    .command('run <name>')
+    .description('Generate a playlist from a saved recipe')
+    .option('-t, --tracks <number>', 'Override the number of tracks')
+    .option('--duration <minutes>', 'Override the target duration in minutes')
+    .option('-n, --name <name>', 'Override the playlist name')
+    .option('--public', 'Make playlist public')
+    .option('--into <playlist>', 'Replace the tracks of an existing playlist (ID, URL or name)')
+    .option('--append', 'With --into, add the tracks to the existing ones instead of replacing them')
+    .option('--dry-run', 'Preview the track list without saving it to Spotify')
+    .option('--export <file>', 'Also write the track list to a file (.m3u, .m3u8, .xspf, .csv or .json)')
+    .action(async (name, overrides) => {
+      let saved: Recipe;
+      try {
+        saved = await loadRecipe(name);
+      } catch (err: any) {
+        console.error(chalk.red(err.message));
+        process.exit(1);
+      }
+
+      const options = { ...saved.options };
+      if (overrides.tracks || overrides.duration) {
+        Object.assign(options, sizeOptions(overrides));
+      }
+      if (overrides.name) options.name = overrides.name;
+      if (overrides.public) options.public = true;
+
+      await createPlaylist(options, {
+        into: overrides.into ?? saved.run?.into,
+        append: overrides.append ?? saved.run?.append,
+        dryRun: overrides.dryRun,
+        export: overrides.export
+      });
+    });
+
+  recipe
+    .command('rm <name>')
+    .alias('remove')
+    .description('Delete a saved recipe')
+    .action((name) => {
+      if (!deleteRecipe(name)) {
+        console.log(chalk.red(`No recipe named "${name}"`));
+        process.exit(1);
+      }
+      console.log(chalk.green(`✓ Deleted recipe "${name}"`));
+    });
+}
+
+// Parse playlist arguments into a storable recipe
+async function buildRecipe(args: string[], createdAt = new Date().toISOString()): Promise<Recipe> {
+  const { options, run } = await parsePlaylistArgs(args);
+
+  // Round-trip through JSON to drop undefined fields before they hit the schema
+  return JSON.parse(JSON.stringify({
+    version: RECIPE_VERSION,
+    args,
+    options,
+    run: { into: run.into, append: run.append },
+    createdAt
+  }));
+}
+
+// Load a recipe, re-parsing recipes saved by an older version from their original arguments
+export async function loadRecipe(name: string): Promise<Recipe> {
+  const saved = getRecipes()[name];
+
+  if (!saved) {
+    throw new Error(`No recipe named "${name}". See: spotify-gen recipe list`);
+  }
+  if (saved.version > RECIPE_VERSION) {
+    throw new Error(`Recipe "${name}" was saved by a newer version of spotify-gen. Please upgrade.`);
+  }
+
+  if (saved.version < RECIPE_VERSION) {
+    const migrated = await buildRecipe(saved.args, saved.createdAt);
+    saveRecipe(name, migrated);
+    return migrated;
+  }
+
+  return saved;
+}
+
+function formatArgs(args: string[]): string {
+  return args.map(a => (/\s/.test(a) ? `"${a}"` : a)).join(' ');
+}
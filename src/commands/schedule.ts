@@ -0,0 +1,192 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import fs from 'fs';
+import path from 'path';
+import { spotifyClient } from '../lib/spotify-client';
+import { planPlaylist, publishPlaylist } from '../lib/playlist-generator';
+import { parseCron, nextRun } from '../lib/cron';
+import { getRecipes, getSchedules, saveSchedule, deleteSchedule, getConfigDir } from '../lib/config';
+import { loadRecipe } from './recipe';
+import { Schedule } from '../types/spotify';
+
+// How often the daemon checks for due schedules
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+export function registerScheduleCommand(program: Command): void {
+  const schedule = program
+    .command('schedule')
+    .description('Regenerate saved recipes on a cron schedule');
+
+  schedule
+    .command('add <recipe> <cron>')
+    .description('Schedule a recipe, e.g. schedule add monday-focus "0 7 * * 1"')
+    .option('--into <playlist>', 'Playlist to update in place (default: the recipe\'s --into, or the playlist created on the first run)')
+    .action((recipe, cron, options) => {
+      if (!getRecipes()[recipe]) {
+        console.log(chalk.red(`No recipe named "${recipe}". Save one first: spotify-gen recipe save ${recipe} -- <playlist args>`));
+        process.exit(1);
+      }
+
+      let next: Date | null;
+      try {
+        next = nextRun(parseCron(cron), new Date());
+      } catch (err: any) {
+        console.log(chalk.red(err.message));
+        process.exit(1);
+      }
+
+      // Re-adding keeps updating the playlist an earlier run created, unless --into points elsewhere now
+      const previous = getSchedules()[recipe];
+      saveSchedule(recipe, {
+        recipe,
+        cron,
+        into: options.into,
+        playlistId: previous && previous.into === options.into ? previous.playlistId : undefined,
+        createdAt: new Date().toISOString()
+      });
+
+      console.log(chalk.green(`✓ Scheduled "${recipe}" (${cron})`));
+      if (next) {
+        console.log(chalk.dim(`  Next run: ${next.toLocaleString()}`));
+      }
+      console.log(chalk.dim('  Start the scheduler with: spotify-gen schedule start'));
+    });
+
+  schedule
+    .command('list')
+    .description('List scheduled recipes')
+    .action(() => {
+      const schedules = Object.entries(getSchedules());
+
+      if (schedules.length === 0) {
+        console.log(chalk.dim('No schedules yet. Try: spotify-gen schedule add <recipe> "0 7 * * 1"'));
+        return;
+      }
+
+      console.log(chalk.bold('\n⏰ Schedules\n'));
+      for (const [name, entry] of schedules) {
+        const next = nextRun(entry.cron, new Date());
+        console.log(`  ${chalk.cyan(name)}  ${entry.cron}`);
+        console.log(chalk.dim(`    Last run: ${entry.lastRun ? new Date(entry.lastRun).toLocaleString() : 'never'}`));
+        console.log(chalk.dim(`    Next run: ${next ? next.toLocaleString() : 'never'}`));
+      }
+      console.log(chalk.dim(`\nRun log: ${getLogPath()}\n`));
+    });
+
+  schedule
+    .command('rm <recipe>')
+    .alias('remove')
+    .description('Remove a schedule (the recipe itself is kept)')
+    .action((recipe) => {
+      if (!deleteSchedule(recipe)) {
+        console.log(chalk.red(`No schedule for "${recipe}"`));
+        process.exit(1);
+      }
+      console.log(chalk.green(`✓ Removed schedule "${recipe}"`));
+    });
+
+  schedule
+    .command('start')
+    .description('Run the scheduler in the foreground until stopped (Ctrl+C)')
+    .option('--catch-up', 'Run each schedule that was missed since its last run once, then exit')
+    .action(async (options) => {
+      const initialized = await spotifyClient.init();
+      if (!initialized) {
+        console.log(chalk.red('Not authenticated'));
+        console.log(chalk.dim('Run: spotify-gen auth'));
+        process.exit(1);
+      }
+
+      if (options.catchUp) {
+        const ran = await runDueSchedules(null);
+        console.log(ran > 0 ? chalk.green(`✓ Caught up ${ran} schedule(s)`) : chalk.dim('Nothing missed'));
+        return;
+      }
+
+      // Only runs from now on; missed runs are left to --catch-up
+      const startedAt = new Date();
+      console.log(chalk.cyan(`⏰ Scheduler started at ${startedAt.toLocaleString()}`));
+      console.log(chalk.dim(`   Logging to ${getLogPath()}`));
+      writeLog('scheduler started');
+
+      let running = false;
+      const timer = setInterval(async () => {
+        if (running) return;
+        running = true;
+        try {
+          await runDueSchedules(startedAt);
+        } catch (err: any) {
+          // A broken schedule entry shouldn't take the scheduler down
+          writeLog(`scheduler: check failed - ${err.message}`);
+          console.error(chalk.red(`✗ Checking schedules failed: ${err.message}`));
+        } finally {
+          running = false;
+        }
+      }, CHECK_INTERVAL_MS);
+
+      process.on('SIGINT', () => {
+        clearInterval(timer);
+        writeLog('scheduler stopped');
+        console.log(chalk.dim('\nScheduler stopped'));
+        process.exit(0);
+      });
+    });
+}
+
+// Run every schedule with a fire time between its last run (or `notBefore`, if later) and now.
+// Returns how many ran.
+async function runDueSchedules(notBefore: Date | null): Promise<number> {
+  const now = new Date();
+  let ran = 0;
+
+  for (const [name, entry] of Object.entries(getSchedules())) {
+    let from = new Date(entry.lastRun || entry.createdAt);
+    if (notBefore && notBefore > from) {
+      from = notBefore;
+    }
+
+    const due = nextRun(entry.cron, from);
+    if (!due || due > now) continue;
+
+    await runSchedule(name, entry);
+    ran++;
+  }
+
+  return ran;
+}
+
+async function runSchedule(name: string, entry: Schedule): Promise<void> {
+  console.log(chalk.cyan(`▶ Running "${name}"...`));
+
+  try {
+    // Re-check tokens before each run; a long-running daemon outlives the access token
+    await spotifyClient.init();
+
+    const recipe = await loadRecipe(entry.recipe);
+    const plan = await planPlaylist(recipe.options);
+    const result = await publishPlaylist(plan, {
+      into: entry.playlistId || entry.into || recipe.run?.into,
+      append: recipe.run?.append
+    });
+
+    // Remember the playlist so every later run updates it instead of piling up copies
+    saveSchedule(name, { ...entry, playlistId: result.playlistId, lastRun: new Date().toISOString() });
+
+    writeLog(`${name}: ${result.updated ? 'updated' : 'created'} "${result.playlistName}" with ${plan.tracks.length} tracks (${result.playlistUrl})`);
+    console.log(chalk.green(`✓ ${name}: ${plan.tracks.length} tracks → ${result.playlistUrl}`));
+  } catch (err: any) {
+    // Record the attempt so a failing schedule isn't retried every check
+    saveSchedule(name, { ...entry, lastRun: new Date().toISOString() });
+
+    writeLog(`${name}: failed - ${err.message}`);
+    console.error(chalk.red(`✗ ${name}: ${err.message}`));
+  }
+}
+
+function getLogPath(): string {
+  return path.join(getConfigDir(), 'schedule.log');
+}
+
+function writeLog(message: string): void {
+  fs.appendFileSync(getLogPath(), `${new Date().toISOString()} ${message}\n`);
+}
@@ -5,6 +5,12 @@ import chalk from 'chalk';
 import { registerAuthCommands } from './commands/auth';
 import { registerAnalyzeCommand } from './commands/analyze';
 import { registerPlaylistCommand } from './commands/playlist';
+import { registerRecipeCommand } from './commands/recipe';
+import { registerScheduleCommand } from './commands/schedule';
+import { registerGenresCommand } from './commands/genres';
+import { registerExportCommand } from './commands/export';
+import { registerImportCommand } from './commands/import';
+import { registerCleanCommand } from './commands/clean';
 
 const program = new Command();
 
@@ -17,6 +23,12 @@ program
 registerAuthCommands(program);
 registerAnalyzeCommand(program);
 registerPlaylistCommand(program);
+registerRecipeCommand(program);
+registerScheduleCommand(program);
+registerGenresCommand(program);
+registerExportCommand(program);
+registerImportCommand(program);
+registerCleanCommand(program);
 
 // Default help with examples
 program.on('--help', () => {
@@ -31,6 +43,12 @@ program.on('--help', () => {
   console.log('  $ spotify-gen playlist vibe "late night coding session"');
   console.log('  $ spotify-gen playlist like "Daft Punk"');
   console.log('  $ spotify-gen playlist time morning');
+  console.log('  $ spotify-gen recipe save deep-work -- activity focus --duration 90');
+  console.log('  $ spotify-gen schedule add deep-work "0 7 * * 1"');
+  console.log('  $ spotify-gen genres                        # How your genres map to seeds');
+  console.log('  $ spotify-gen export "Road Trip" trip.m3u');
+  console.log('  $ spotify-gen import old-favourites.csv --dry-run');
+  console.log('  $ spotify-gen clean "Shared Mix" --sort energy');
   console.log('');
   console.log(chalk.dim('For detailed help on a command: spotify-gen <command> --help'));
 });
@@ -12,6 +12,7 @@ const SCOPES = [
   'user-read-email',
   'user-top-read',
   'user-read-recently-played',
+  'user-library-read',
   'playlist-modify-public',
   'playlist-modify-private',
   'playlist-read-private'
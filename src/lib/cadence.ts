@@ -0,0 +1,66 @@
+import { SpotifyTrack, AudioFeatures } from '../types/spotify';
+
+export interface CadenceTarget {
+  start: number;      // Steps per minute at the first track
+  end: number;        // Steps per minute at the last track (same as start unless progressive)
+  tolerance: number;  // Allowed BPM difference
+}
+
+// The tempo closest to the cadence among the track's BPM and its half/double-time feel
+export function effectiveTempo(tempo: number, cadence: number): number {
+  const variants = [tempo, tempo * 2, tempo / 2];
+  return variants.reduce((best, v) =>
+    Math.abs(v - cadence) < Math.abs(best - cadence) ? v : best
+  );
+}
+
+export function matchesCadence(tempo: number, cadence: number, tolerance: number): boolean {
+  return Math.abs(effectiveTempo(tempo, cadence) - cadence) <= tolerance;
+}
+
+// Target cadence at a position (0-1) along the playlist
+export function cadenceAt(target: CadenceTarget, position: number): number {
+  return target.start + (target.end - target.start) * position;
+}
+
+// Could the track fit anywhere along the ramp?
+export function fitsCadenceRange(tempo: number, target: CadenceTarget): boolean {
+  const low = Math.min(target.start, target.end);
+  const high = Math.max(target.start, target.end);
+
+  return [tempo, tempo * 2, tempo / 2].some(
+    v => v >= low - target.tolerance && v <= high + target.tolerance
+  );
+}
+
+// Fill `slots` positions in order, each with the closest unused candidate to that
+// position's cadence. Slots that nothing fits are skipped, so the result may be short.
+export function selectForCadence(
+  candidates: SpotifyTrack[],
+  features: Map<string, AudioFeatures>,
+  target: CadenceTarget,
+  slots: number
+): SpotifyTrack[] {
+  const remaining = candidates.filter(t => features.has(t.id));
+  const selected: SpotifyTrack[] = [];
+
+  for (let i = 0; i < slots; i++) {
+    const cadence = cadenceAt(target, slots > 1 ? i / (slots - 1) : 0);
+    let bestIndex = -1;
+    let bestDistance = Infinity;
+
+    for (let j = 0; j < remaining.length; j++) {
+      const tempo = features.get(remaining[j].id)!.tempo;
+      const distance = Math.abs(effectiveTempo(tempo, cadence) - cadence);
+      if (distance <= target.tolerance && distance < bestDistance) {
+        bestDistance = distance;
+        bestIndex = j;
+      }
+    }
+
+    if (bestIndex === -1) continue;
+    selected.push(...remaining.splice(bestIndex, 1));
+  }
+
+  return selected;
+}
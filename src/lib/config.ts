@@ -1,12 +1,70 @@
-import Conf from 'conf';
-import { SpotifyTokens } from '../types/spotify';
+import Conf, { Schema } from 'conf';
+import path from 'path';
+import { SpotifyTokens, Recipe, Schedule, PlaylistOptions } from '../types/spotify';
 
 interface ConfigSchema {
   clientId: string;
   clientSecret: string;
   tokens?: SpotifyTokens;
+  recipes?: Record<string, Recipe>;
+  schedules?: Record<string, Schedule>;
 }
 
+// Bump when the stored shape of a recipe changes; older recipes are re-parsed from their args
+export const RECIPE_VERSION = 1;
+
+const PLAYLIST_OPTIONS_SCHEMA: Schema<{ options: PlaylistOptions }>['options'] = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    description: { type: 'string' },
+    trackCount: { type: 'number' },
+    duration: { type: 'number' },
+    mood: { type: 'string' },
+    activity: { type: 'string' },
+    timeOfDay: { type: 'string' },
+    basedOn: { type: 'string' },
+    vibe: { type: 'string' },
+    discover: { type: 'boolean' },
+    public: { type: 'boolean' },
+    blendWith: { type: 'array', items: { type: 'string' } },
+    withProfiles: { type: 'array', items: { type: 'string' } },
+    birthYear: { type: 'number' },
+    targetYear: { type: 'number' },
+    decade: { type: 'string' },
+    ageRange: { type: 'string' },
+    genre: { type: 'string' },
+    deepCuts: { type: 'boolean' },
+    listeningMode: { type: 'number' },
+    cadence: { type: 'number' },
+    cadenceEnd: { type: 'number' },
+    cadenceTolerance: { type: 'number' },
+    modifiers: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: ['mood', 'activity', 'time'] },
+          name: { type: 'string' },
+          weight: { type: 'number' }
+        }
+      }
+    },
+    featureWeights: { type: 'string' },
+    maxDeviation: { type: 'number' },
+    strict: { type: 'boolean' },
+    within: { type: 'string' },
+    range: { type: 'string' },
+    rangeWeights: { type: 'string' },
+    exclude: { type: 'array', items: { type: 'string', enum: ['known', 'liked', 'generated'] } },
+    maxPerArtist: { type: 'number' },
+    maxPerAlbum: { type: 'number' },
+    artistSpacing: { type: 'number' },
+    arc: { type: 'string' },
+    harmonic: { type: 'boolean' }
+  }
+};
+
 const config = new Conf<ConfigSchema>({
   projectName: 'spotify-playlist-gen',
   schema: {
@@ -19,6 +77,41 @@ const config = new Conf<ConfigSchema>({
         refresh_token: { type: 'string' },
         expires_at: { type: 'number' }
       }
+    },
+    recipes: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        required: ['version', 'args', 'options', 'createdAt'],
+        properties: {
+          version: { type: 'integer', minimum: 1 },
+          args: { type: 'array', items: { type: 'string' } },
+          options: PLAYLIST_OPTIONS_SCHEMA,
+          run: {
+            type: 'object',
+            properties: {
+              into: { type: 'string' },
+              append: { type: 'boolean' }
+            }
+          },
+          createdAt: { type: 'string' }
+        }
+      }
+    },
+    schedules: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        required: ['recipe', 'cron', 'createdAt'],
+        properties: {
+          recipe: { type: 'string' },
+          cron: { type: 'string' },
+          into: { type: 'string' },
+          playlistId: { type: 'string' },
+          lastRun: { type: 'string' },
+          createdAt: { type: 'string' }
+        }
+      }
     }
   }
 });
@@ -57,3 +150,41 @@ export function isAuthenticated(): boolean {
 export function getConfigPath(): string {
   return config.path;
 }
+
+export function getConfigDir(): string {
+  return path.dirname(config.path);
+}
+
+export function getRecipes(): Record<string, Recipe> {
+  return config.get('recipes') || {};
+}
+
+export function saveRecipe(name: string, recipe: Recipe): void {
+  config.set('recipes', { ...getRecipes(), [name]: recipe });
+}
+
+export function deleteRecipe(name: string): boolean {
+  const recipes = getRecipes();
+  if (!recipes[name]) return false;
+
+  delete recipes[name];
+  config.set('recipes', recipes);
+  return true;
+}
+
+export function getSchedules(): Record<string, Schedule> {
+  return config.get('schedules') || {};
+}
+
+export function saveSchedule(name: string, schedule: Schedule): void {
+  config.set('schedules', { ...getSchedules(), [name]: schedule });
+}
+
+export function deleteSchedule(name: string): boolean {
+  const schedules = getSchedules();
+  if (!schedules[name]) return false;
+
+  delete schedules[name];
+  config.set('schedules', schedules);
+  return true;
+}
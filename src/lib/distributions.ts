@@ -0,0 +1,122 @@
+import chalk from 'chalk';
+import { AudioFeatures, DistributionFeature, FeatureDistribution, TasteProfile } from '../types/spotify';
+import { ScoredFeature, SCORED_FEATURES, TEMPO_SCALE } from './scoring';
+
+export const DISTRIBUTION_FEATURES: DistributionFeature[] = [
+  'danceability', 'energy', 'valence', 'acousticness', 'instrumentalness', 'speechiness', 'liveness', 'loudness', 'tempo'
+];
+
+const HISTOGRAM_BINS = 10;
+
+// Histogram scales for the features that aren't 0-1 (values outside land in the end bins)
+const SCALES: Partial<Record<DistributionFeature, { min: number; max: number }>> = {
+  tempo: { min: 50, max: 210 },
+  loudness: { min: -30, max: 0 }
+};
+
+// Percentiles that can bound a playlist, and where they live in a distribution
+const PERCENTILE_KEYS: Record<number, keyof Omit<FeatureDistribution, 'histogram'>> = {
+  10: 'p10',
+  25: 'p25',
+  50: 'median',
+  75: 'p75',
+  90: 'p90'
+};
+
+const SPARKS = '▁▂▃▄▅▆▇█';
+
+export function buildDistributions(features: AudioFeatures[]): Record<DistributionFeature, FeatureDistribution> | undefined {
+  if (features.length === 0) return undefined;
+
+  const distributions = {} as Record<DistributionFeature, FeatureDistribution>;
+  for (const feature of DISTRIBUTION_FEATURES) {
+    const values = features.map(f => f[feature]).sort((a, b) => a - b);
+    const scale = SCALES[feature] || { min: 0, max: 1 };
+
+    const counts = new Array(HISTOGRAM_BINS).fill(0);
+    for (const value of values) {
+      const bin = Math.floor(((value - scale.min) / (scale.max - scale.min)) * HISTOGRAM_BINS);
+      counts[Math.min(HISTOGRAM_BINS - 1, Math.max(0, bin))]++;
+    }
+
+    distributions[feature] = {
+      p10: percentile(values, 10),
+      p25: percentile(values, 25),
+      median: percentile(values, 50),
+      p75: percentile(values, 75),
+      p90: percentile(values, 90),
+      histogram: { ...scale, counts }
+    };
+  }
+
+  return distributions;
+}
+
+// Linear interpolation between the closest ranks of sorted values
+function percentile(sorted: number[], p: number): number {
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function sparkline(counts: number[]): string {
+  const max = Math.max(...counts);
+  return counts
+    .map(count => count === 0 ? ' ' : SPARKS[Math.min(SPARKS.length - 1, Math.floor((count / max) * SPARKS.length))])
+    .join('');
+}
+
+// Sparkline and p10 · median · p90 of each feature, one line per feature
+export function formatDistributions(distributions: Record<DistributionFeature, FeatureDistribution>): string[] {
+  return DISTRIBUTION_FEATURES.map(feature => {
+    const d = distributions[feature];
+    const format = (value: number) => feature === 'tempo'
+      ? `${Math.round(value)}`
+      : feature === 'loudness' ? `${value.toFixed(1)}` : value.toFixed(2);
+    const unit = feature === 'tempo' ? ' BPM' : feature === 'loudness' ? ' dB' : '';
+    return `  ${feature.padEnd(17)}${chalk.magenta(sparkline(d.histogram.counts))}  ${chalk.dim(`${format(d.p10)} · ${format(d.median)} · ${format(d.p90)}${unit}`)}`;
+  });
+}
+
+// A track's place in "sound space" (the scored features), for clustering and distances. Tempo is
+// scaled by TEMPO_SCALE, so 100 BPM counts the same as the 0-1 range of other features.
+export function featureVector(features: Record<ScoredFeature, number>): number[] {
+  return SCORED_FEATURES.map(d => d === 'tempo' ? features.tempo / TEMPO_SCALE : features[d]);
+}
+
+export function vectorDistance(a: number[], b: number[]): number {
+  return Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0));
+}
+
+// Parse "p10-p90" into the two percentiles
+export function parsePercentileRange(input: string): { from: number; to: number } {
+  const match = input.trim().toLowerCase().match(/^p(\d+)\s*-\s*p(\d+)$/);
+  const from = match ? parseInt(match[1]) : NaN;
+  const to = match ? parseInt(match[2]) : NaN;
+
+  if (!PERCENTILE_KEYS[from] || !PERCENTILE_KEYS[to] || from >= to) {
+    const available = Object.keys(PERCENTILE_KEYS).map(p => `p${p}`).join(', ');
+    throw new Error(`Invalid percentile range "${input}". Use two of ${available}, lowest first (e.g. p10-p90)`);
+  }
+  return { from, to };
+}
+
+// Per-feature bounds between two percentiles of the user's taste, e.g. "stay within my p10-p90"
+export function percentileBounds(
+  profile: TasteProfile,
+  range: { from: number; to: number }
+): Partial<Record<ScoredFeature, { min: number; max: number }>> | null {
+  if (!profile.distributions) return null;
+
+  const bounds: Partial<Record<ScoredFeature, { min: number; max: number }>> = {};
+  // A playlist can be bounded on the features tracks are ranked by
+  for (const feature of SCORED_FEATURES) {
+    const distribution = profile.distributions[feature];
+    bounds[feature] = {
+      min: distribution[PERCENTILE_KEYS[range.from]],
+      max: distribution[PERCENTILE_KEYS[range.to]]
+    };
+  }
+  return bounds;
+}
@@ -0,0 +1,60 @@
+import { SpotifyTrack } from '../types/spotify';
+
+export interface DiversityRules {
+  maxPerArtist?: number;  // Most tracks any one artist may appear on
+  maxPerAlbum?: number;   // Most tracks from any one album
+  artistSpacing?: number; // No shared artist within this many slots
+}
+
+export function hasDiversityRules(rules: DiversityRules): boolean {
+  return rules.maxPerArtist !== undefined
+    || rules.maxPerAlbum !== undefined
+    || rules.artistSpacing !== undefined;
+}
+
+// Walk the tracks in order, dropping any that would exceed the artist/album caps and
+// deferring any that would sit too close to the same artist. Tracks that can't be
+// placed without breaking the spacing are returned as `dropped` along with the capped ones.
+export function applyDiversity(
+  tracks: SpotifyTrack[],
+  rules: DiversityRules
+): { tracks: SpotifyTrack[]; dropped: SpotifyTrack[] } {
+  const artistCounts = new Map<string, number>();
+  const albumCounts = new Map<string, number>();
+  const result: SpotifyTrack[] = [];
+  const dropped: SpotifyTrack[] = [];
+
+  const fitsCaps = (track: SpotifyTrack) =>
+    (rules.maxPerArtist === undefined ||
+      track.artists.every(a => (artistCounts.get(a.id) || 0) < rules.maxPerArtist!)) &&
+    (rules.maxPerAlbum === undefined ||
+      (albumCounts.get(track.album.id) || 0) < rules.maxPerAlbum);
+
+  const fitsSpacing = (track: SpotifyTrack) => {
+    if (!rules.artistSpacing) return true;
+    const recentArtists = new Set(
+      result.slice(-rules.artistSpacing).flatMap(t => t.artists.map(a => a.id))
+    );
+    return !track.artists.some(a => recentArtists.has(a.id));
+  };
+
+  let pending = [...tracks];
+
+  while (pending.length > 0) {
+    // Drop anything the caps now rule out
+    dropped.push(...pending.filter(t => !fitsCaps(t)));
+    pending = pending.filter(fitsCaps);
+
+    const index = pending.findIndex(fitsSpacing);
+    if (index === -1) break;
+
+    const [track] = pending.splice(index, 1);
+    result.push(track);
+    for (const artist of track.artists) {
+      artistCounts.set(artist.id, (artistCounts.get(artist.id) || 0) + 1);
+    }
+    albumCounts.set(track.album.id, (albumCounts.get(track.album.id) || 0) + 1);
+  }
+
+  return { tracks: result, dropped: [...dropped, ...pending] };
+}
@@ -0,0 +1,291 @@
+// Maps Spotify's free-form artist genres ("uk alternative pop", "indie soul") to the much
+// smaller set of genres the recommendations endpoint accepts as seeds
+
+interface TaxonomyEntry {
+  parent?: string;
+  aliases?: string[];  // Other names for the genre, as they appear in artist genres
+}
+
+// Every recommendation seed genre, with its parent and aliases
+const TAXONOMY: Record<string, TaxonomyEntry> = {
+  // Rock
+  'rock': {},
+  'alternative': { parent: 'rock', aliases: ['alt', 'post-punk', 'new wave'] },
+  'alt-rock': { parent: 'rock', aliases: ['alternative rock', 'alt rock', 'modern rock', 'post-rock', 'shoegaze'] },
+  'hard-rock': { parent: 'rock', aliases: ['arena rock', 'glam rock', 'stoner rock', 'album rock'] },
+  'psych-rock': { parent: 'rock', aliases: ['psychedelic rock', 'psychedelia', 'neo-psychedelic', 'space rock', 'krautrock'] },
+  'grunge': { parent: 'rock', aliases: ['post-grunge'] },
+  'rock-n-roll': { parent: 'rock', aliases: ['rock and roll', 'rock n roll', 'classic rock', 'doo-wop'] },
+  'rockabilly': { parent: 'rock-n-roll', aliases: ['psychobilly'] },
+  'indie': { parent: 'alternative', aliases: ['indie rock', 'lo-fi indie', 'indie garage rock'] },
+  'indie-pop': { parent: 'indie', aliases: ['bedroom pop', 'chamber pop', 'dream pop', 'twee pop', 'jangle pop'] },
+  'goth': { parent: 'rock', aliases: ['gothic rock', 'darkwave', 'coldwave', 'deathrock'] },
+  'guitar': { parent: 'rock', aliases: ['fingerstyle', 'acoustic guitar', 'classical guitar'] },
+  'j-rock': { parent: 'rock', aliases: ['japanese rock', 'visual kei'] },
+  'punk': { parent: 'rock', aliases: ['garage punk', 'anarcho-punk', 'oi'] },
+  'punk-rock': { parent: 'punk', aliases: ['pop punk', 'skate punk', 'melodic punk'] },
+  'emo': { parent: 'punk', aliases: ['midwest emo', 'screamo'] },
+  'hardcore': { parent: 'punk', aliases: ['hardcore punk', 'post-hardcore', 'beatdown'] },
+  'power-pop': { parent: 'pop', aliases: ['power pop'] },
+
+  // Metal
+  'metal': { aliases: ['nu metal', 'alternative metal', 'groove metal', 'doom metal', 'sludge metal', 'stoner metal'] },
+  'heavy-metal': { parent: 'metal', aliases: ['heavy metal', 'nwobhm', 'power metal', 'thrash metal', 'speed metal', 'traditional heavy metal'] },
+  'black-metal': { parent: 'metal', aliases: ['black metal', 'atmospheric black metal', 'blackgaze'] },
+  'death-metal': { parent: 'metal', aliases: ['death metal', 'melodic death metal', 'deathcore', 'brutal death metal'] },
+  'metalcore': { parent: 'metal', aliases: ['melodic metalcore', 'progressive metalcore'] },
+  'grindcore': { parent: 'metal', aliases: ['grind', 'goregrind', 'powerviolence'] },
+  'metal-misc': { parent: 'metal', aliases: ['progressive metal', 'symphonic metal', 'folk metal', 'djent', 'gothic metal'] },
+  'industrial': { parent: 'electronic', aliases: ['industrial metal', 'industrial rock', 'ebm', 'aggrotech'] },
+
+  // Pop
+  'pop': { aliases: ['dance pop', 'art pop', 'electropop', 'teen pop', 'europop', 'hyperpop'] },
+  'synth-pop': { parent: 'pop', aliases: ['synthpop', 'synthwave', 'retrowave', 'new romantic'] },
+  'k-pop': { parent: 'pop', aliases: ['korean pop', 'k-pop boy group', 'k-pop girl group'] },
+  'j-pop': { parent: 'pop', aliases: ['japanese pop', 'city pop'] },
+  'j-idol': { parent: 'j-pop', aliases: ['idol', 'japanese idol'] },
+  'j-dance': { parent: 'j-pop', aliases: ['japanese dance'] },
+  'cantopop': { parent: 'pop', aliases: ['hong kong pop'] },
+  'mandopop': { parent: 'pop', aliases: ['c-pop', 'chinese pop', 'taiwan pop'] },
+  'pop-film': { parent: 'soundtracks', aliases: ['film pop'] },
+
+  // Electronic
+  'electronic': { aliases: ['electronica', 'electro pop'] },
+  'edm': { parent: 'electronic', aliases: ['electro house', 'big room', 'complextro', 'future bass'] },
+  'house': { parent: 'electronic', aliases: ['afro house', 'funky house', 'vocal house', 'uk house'] },
+  'deep-house': { parent: 'house', aliases: ['deep house', 'tropical house', 'melodic house', 'organic house'] },
+  'chicago-house': { parent: 'house', aliases: ['chicago house', 'acid house', 'ghetto house'] },
+  'progressive-house': { parent: 'house', aliases: ['progressive house', 'progressive electro house'] },
+  'techno': { parent: 'electronic', aliases: ['hard techno', 'acid techno', 'industrial techno', 'tech house'] },
+  'minimal-techno': { parent: 'techno', aliases: ['minimal techno', 'microhouse', 'minimal'] },
+  'detroit-techno': { parent: 'techno', aliases: ['detroit techno'] },
+  'trance': { parent: 'electronic', aliases: ['progressive trance', 'uplifting trance', 'psytrance', 'psychedelic trance', 'vocal trance'] },
+  'dubstep': { parent: 'electronic', aliases: ['brostep', 'riddim', 'deathstep'] },
+  'post-dubstep': { parent: 'dubstep', aliases: ['future garage', 'wonky'] },
+  'drum-and-bass': { parent: 'electronic', aliases: ['drum and bass', 'dnb', 'liquid funk', 'jungle', 'neurofunk'] },
+  'idm': { parent: 'electronic', aliases: ['intelligent dance music', 'glitch', 'braindance'] },
+  'electro': { parent: 'electronic', aliases: ['electroclash', 'electro swing'] },
+  'breakbeat': { parent: 'electronic', aliases: ['big beat', 'breaks', 'nu skool breaks'] },
+  'garage': { parent: 'electronic', aliases: ['uk garage', '2-step', 'speed garage'] },
+  'hardstyle': { parent: 'electronic', aliases: ['hard dance', 'gabber', 'rawstyle', 'hardcore techno'] },
+  'trip-hop': { parent: 'electronic', aliases: ['trip hop', 'downtempo'] },
+  'ambient': { parent: 'electronic', aliases: ['dark ambient', 'drone', 'space music', 'ambient house'] },
+  'new-age': { parent: 'ambient', aliases: ['new age', 'meditation', 'healing', 'sound healing'] },
+  'chill': { parent: 'electronic', aliases: ['chillwave', 'chillhop', 'lo-fi', 'lofi', 'lo-fi beats', 'chillout'] },
+  'dance': { parent: 'electronic', aliases: ['eurodance', 'dance-punk', 'hi-nrg'] },
+  'club': { parent: 'dance', aliases: ['jersey club', 'baltimore club'] },
+  'disco': { parent: 'dance', aliases: ['nu disco', 'italo disco', 'post-disco', 'disco house'] },
+
+  // Hip-hop, R&B and soul
+  'hip-hop': { aliases: ['rap', 'trap', 'drill', 'boom bap', 'grime', 'conscious hip hop', 'gangster rap', 'underground hip hop'] },
+  'r-n-b': { aliases: ['r&b', 'rnb', 'r and b', 'contemporary r&b', 'alternative r&b', 'new jack swing'] },
+  'soul': { parent: 'r-n-b', aliases: ['neo soul', 'neo-soul', 'motown', 'northern soul', 'classic soul', 'retro soul'] },
+  'funk': { parent: 'soul', aliases: ['p funk', 'funk rock', 'boogie'] },
+  'groove': { parent: 'funk', aliases: ['jazz funk', 'rare groove'] },
+  'gospel': { parent: 'soul', aliases: ['worship', 'ccm', 'christian', 'contemporary gospel'] },
+
+  // Jazz and blues
+  'jazz': { aliases: ['bebop', 'swing', 'smooth jazz', 'jazz fusion', 'nu jazz', 'big band', 'vocal jazz', 'hard bop', 'cool jazz'] },
+  'blues': { aliases: ['delta blues', 'chicago blues', 'electric blues', 'blues rock', 'modern blues'] },
+
+  // Country and folk
+  'country': { aliases: ['contemporary country', 'country pop', 'americana', 'outlaw country', 'alt country', 'country rock'] },
+  'bluegrass': { parent: 'country', aliases: ['newgrass', 'progressive bluegrass'] },
+  'honky-tonk': { parent: 'country', aliases: ['honky tonk', 'western swing'] },
+  'folk': { aliases: ['indie folk', 'folk rock', 'folk-pop', 'stomp and holler', 'anti-folk', 'traditional folk'] },
+  'acoustic': { parent: 'folk', aliases: ['acoustic pop', 'acoustic cover', 'unplugged'] },
+  'singer-songwriter': { parent: 'folk', aliases: ['singer songwriter', 'contemporary singer-songwriter'] },
+  'songwriter': { parent: 'singer-songwriter' },
+
+  // Classical
+  'classical': { aliases: ['baroque', 'orchestra', 'orchestral', 'contemporary classical', 'neoclassical', 'early music', 'chamber music', 'romantic era', 'choral'] },
+  'opera': { parent: 'classical', aliases: ['operetta'] },
+  'piano': { parent: 'classical', aliases: ['solo piano', 'neo-classical piano', 'piano cover'] },
+
+  // Reggae and caribbean
+  'reggae': { aliases: ['roots reggae', 'lovers rock', 'reggae fusion'] },
+  'dub': { parent: 'reggae', aliases: ['dub techno', 'dub poetry'] },
+  'dancehall': { parent: 'reggae', aliases: ['ragga', 'modern dancehall'] },
+  'ska': { parent: 'reggae', aliases: ['ska punk', '2 tone', 'rocksteady'] },
+
+  // Latin and Brazilian
+  'latin': { aliases: ['latin pop', 'latin alternative', 'urbano latino', 'cumbia', 'bachata', 'merengue'] },
+  'latino': { parent: 'latin' },
+  'reggaeton': { parent: 'latin', aliases: ['latin trap', 'dembow', 'perreo'] },
+  'salsa': { parent: 'latin', aliases: ['timba', 'salsa romantica'] },
+  'tango': { parent: 'latin', aliases: ['nuevo tango', 'tango nuevo'] },
+  'spanish': { parent: 'latin', aliases: ['spanish pop', 'flamenco', 'spanish rock'] },
+  'brazil': { aliases: ['brazilian', 'brazilian pop', 'brazilian rock', 'funk carioca'] },
+  'mpb': { parent: 'brazil', aliases: ['musica popular brasileira', 'nova mpb'] },
+  'samba': { parent: 'brazil', aliases: ['samba-enredo', 'samba de raiz'] },
+  'pagode': { parent: 'samba', aliases: ['pagode baiano'] },
+  'sertanejo': { parent: 'brazil', aliases: ['sertanejo universitario', 'sertanejo pop'] },
+  'forro': { parent: 'brazil', aliases: ['piseiro', 'arrocha'] },
+  'bossanova': { parent: 'brazil', aliases: ['bossa nova'] },
+
+  // World and regional
+  'world-music': { aliases: ['world', 'world fusion', 'traditional'] },
+  'afrobeat': { parent: 'world-music', aliases: ['afrobeats', 'afropop', 'afro soul', 'highlife', 'amapiano'] },
+  'indian': { parent: 'world-music', aliases: ['bollywood', 'filmi', 'desi', 'punjabi', 'carnatic', 'hindustani classical'] },
+  'iranian': { parent: 'world-music', aliases: ['persian', 'persian pop'] },
+  'turkish': { parent: 'world-music', aliases: ['turkish pop', 'arabesk', 'turkish rock'] },
+  'malay': { parent: 'world-music', aliases: ['malaysian', 'malay pop'] },
+  'philippines-opm': { parent: 'world-music', aliases: ['opm', 'pinoy', 'filipino', 'p-pop'] },
+  'british': { aliases: ['uk', 'brit', 'britpop', 'english'] },
+  'french': { aliases: ['chanson', 'variete francaise', 'francoton'] },
+  'german': { aliases: ['deutsch', 'schlager', 'neue deutsche welle'] },
+  'swedish': { aliases: ['svensk'] },
+
+  // Film, stage and kids
+  'soundtracks': { aliases: ['soundtrack', 'score', 'video game music', 'orchestral soundtrack'] },
+  'movies': { parent: 'soundtracks', aliases: ['movie tunes', 'film'] },
+  'show-tunes': { parent: 'soundtracks', aliases: ['broadway', 'musical', 'show tunes', 'west end'] },
+  'anime': { parent: 'soundtracks', aliases: ['anison', 'anime score'] },
+  'disney': { parent: 'soundtracks' },
+  'children': { aliases: ["children's music", 'childrens music', 'nursery'] },
+  'kids': { parent: 'children' },
+  'comedy': { aliases: ['stand-up comedy', 'comic', 'parody'] },
+
+  // Moods and occasions
+  'happy': {},
+  'sad': {},
+  'sleep': {},
+  'study': {},
+  'party': {},
+  'romance': {},
+  'rainy-day': {},
+  'road-trip': {},
+  'summer': {},
+  'work-out': { aliases: ['workout'] },
+  'holidays': { aliases: ['christmas', 'holiday'] },
+  'new-release': {}
+};
+
+// Scores below this aren't worth using as a seed
+export const MIN_GENRE_SCORE = 0.5;
+
+// How much a match loses when it has to fall back to a related genre
+const PARENT_FACTOR = 0.8;
+const CHILD_FACTOR = 0.7;
+
+export interface GenreMatch {
+  seed: string;
+  score: number;   // 0-1
+  reason: string;  // e.g. 'contains "soul"', 'parent of metal-misc'
+}
+
+// Lowercase words without accents or punctuation: "R&B" -> "r and b", "forró" -> "forro"
+function normalize(genre: string): string {
+  return genre
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[-_/'.]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Word-by-word index of every seed genre's name and aliases
+const PHRASES: { seed: string; words: string[]; alias: string | null }[] = Object.entries(TAXONOMY).flatMap(
+  ([seed, entry]) => [
+    { seed, words: normalize(seed).split(' '), alias: null },
+    ...(entry.aliases || []).map(alias => ({ seed, words: normalize(alias).split(' '), alias }))
+  ]
+);
+
+// Every seed genre the taxonomy knows about
+export const TAXONOMY_SEEDS = Object.keys(TAXONOMY);
+
+// The available seed genres closest to an artist genre, best first
+export function mapGenre(genre: string, available: string[], limit = 3): GenreMatch[] {
+  const words = normalize(genre).split(' ').filter(Boolean);
+  const direct = new Map<string, GenreMatch>();
+  const keep = (match: GenreMatch) => {
+    const existing = direct.get(match.seed);
+    if (!existing || match.score > existing.score) direct.set(match.seed, match);
+  };
+
+  // Seeds the API offers but the taxonomy doesn't know still match by name
+  const phrases = [
+    ...PHRASES,
+    ...available.filter(seed => !TAXONOMY[seed]).map(seed => ({ seed, words: normalize(seed).split(' '), alias: null }))
+  ];
+
+  for (const phrase of phrases) {
+    const start = findWords(words, phrase.words);
+    if (start === -1) continue;
+
+    const coverage = phrase.words.length / words.length;
+    if (coverage === 1) {
+      keep({ seed: phrase.seed, score: phrase.alias ? 0.95 : 1, reason: phrase.alias ? `alias "${phrase.alias}"` : 'exact' });
+    } else {
+      // The last word is usually the main genre ("indie soul" is soul first, indie second)
+      const isHead = start + phrase.words.length === words.length;
+      const score = 0.45 + 0.3 * coverage + (isHead ? 0.15 : 0);
+      keep({ seed: phrase.seed, score, reason: `contains "${phrase.alias || phrase.words.join(' ')}"` });
+    }
+  }
+
+  // Fall back to related genres for matches the API doesn't offer as seeds
+  const matches = new Map<string, GenreMatch>();
+  const offer = (match: GenreMatch) => {
+    if (!available.includes(match.seed)) return;
+    const existing = matches.get(match.seed);
+    if (!existing || match.score > existing.score) matches.set(match.seed, match);
+  };
+
+  for (const match of direct.values()) {
+    if (available.includes(match.seed)) {
+      offer(match);
+      continue;
+    }
+
+    let score = match.score;
+    let ancestor = TAXONOMY[match.seed]?.parent;
+    while (ancestor && !available.includes(ancestor)) {
+      score *= PARENT_FACTOR;
+      ancestor = TAXONOMY[ancestor]?.parent;
+    }
+    if (ancestor) {
+      offer({ seed: ancestor, score: score * PARENT_FACTOR, reason: `parent of ${match.seed}` });
+    }
+
+    for (const [child, entry] of Object.entries(TAXONOMY)) {
+      if (entry.parent === match.seed) {
+        offer({ seed: child, score: match.score * CHILD_FACTOR, reason: `child of ${match.seed}` });
+      }
+    }
+  }
+
+  return [...matches.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// Seed genres for a list of genres, most important first. A seed gains from every genre that
+// maps to it, so "rock" wins for someone whose top genres are all kinds of rock.
+export function seedGenresFor(genres: string[], available: string[], limit: number): string[] {
+  const totals = new Map<string, number>();
+
+  genres.forEach((genre, index) => {
+    const importance = 1 / (1 + index * 0.1);
+    for (const match of mapGenre(genre, available)) {
+      if (match.score < MIN_GENRE_SCORE) continue;
+      totals.set(match.seed, (totals.get(match.seed) || 0) + match.score * importance);
+    }
+  });
+
+  return [...totals.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([seed]) => seed);
+}
+
+// Index of `phrase` as consecutive words in `words`, or -1
+function findWords(words: string[], phrase: string[]): number {
+  for (let start = 0; start + phrase.length <= words.length; start++) {
+    if (phrase.every((word, i) => words[start + i] === word)) return start;
+  }
+  return -1;
+}
@@ -0,0 +1,126 @@
+import { SpotifyTrack, AudioFeatures } from '../types/spotify';
+
+const PITCH_CLASSES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Cost of a key clash relative to tempo jumps (in BPM) when searching for an order
+const CLASH_PENALTY = 1000;
+
+export interface CamelotCode {
+  number: number;       // 1-12 around the wheel
+  letter: 'A' | 'B';    // A = minor, B = major
+}
+
+// Convert Spotify's pitch class (0-11, -1 = unknown) and mode to a Camelot code
+export function toCamelot(key: number, mode: number): CamelotCode | null {
+  if (key < 0 || key > 11) return null;
+
+  // Each step of a fifth (7 semitones) moves one position round the wheel; C major is 8B
+  // and a minor key sits at the same number as its relative major (3 semitones up)
+  const number = mode === 1
+    ? (7 * key + 8) % 12
+    : (7 * key + 5) % 12;
+
+  return { number: number === 0 ? 12 : number, letter: mode === 1 ? 'B' : 'A' };
+}
+
+export function formatCamelot(code: CamelotCode | null): string {
+  return code ? `${code.number}${code.letter}` : '—';
+}
+
+export function formatKey(key: number, mode: number): string {
+  if (key < 0 || key > 11) return '?';
+  return `${PITCH_CLASSES[key]}${mode === 1 ? '' : 'm'}`;
+}
+
+// Harmonically compatible: same code, one step round the wheel, or relative major/minor
+export function isCompatible(a: CamelotCode, b: CamelotCode): boolean {
+  if (a.number === b.number) return true;
+
+  if (a.letter !== b.letter) return false;
+  const distance = Math.abs(a.number - b.number);
+  return distance === 1 || distance === 11;
+}
+
+// Tempo jump between two tracks, treating half/double time as a match
+function tempoJump(a: number, b: number): number {
+  return Math.min(Math.abs(a - b), Math.abs(a * 2 - b), Math.abs(a - b * 2));
+}
+
+function transitionCost(a: AudioFeatures, b: AudioFeatures): number {
+  const codeA = toCamelot(a.key, a.mode)!;
+  const codeB = toCamelot(b.key, b.mode)!;
+  return (isCompatible(codeA, codeB) ? 0 : CLASH_PENALTY) + tempoJump(a.tempo, b.tempo);
+}
+
+// Reorder tracks into a harmonic mixing order. Greedily walks to the cheapest next
+// track from every possible starting track and keeps the best path overall.
+// Tracks without a detected key are kept at the end.
+export function harmonicOrder(
+  tracks: SpotifyTrack[],
+  features: Map<string, AudioFeatures>
+): { tracks: SpotifyTrack[]; clashes: number } {
+  const hasKey = (t: SpotifyTrack) => {
+    const f = features.get(t.id);
+    return !!f && toCamelot(f.key, f.mode) !== null;
+  };
+  const placeable = tracks.filter(hasKey);
+  const unplaceable = tracks.filter(t => !hasKey(t));
+
+  if (placeable.length < 2) {
+    return { tracks, clashes: 0 };
+  }
+
+  let bestPath: SpotifyTrack[] = placeable;
+  let bestCost = Infinity;
+
+  for (let start = 0; start < placeable.length; start++) {
+    const remaining = placeable.filter((_, i) => i !== start);
+    const path = [placeable[start]];
+    let cost = 0;
+
+    while (remaining.length > 0) {
+      const current = features.get(path[path.length - 1].id)!;
+      let nextIndex = 0;
+      let nextCost = Infinity;
+
+      for (let i = 0; i < remaining.length; i++) {
+        const c = transitionCost(current, features.get(remaining[i].id)!);
+        if (c < nextCost) {
+          nextCost = c;
+          nextIndex = i;
+        }
+      }
+
+      cost += nextCost;
+      path.push(...remaining.splice(nextIndex, 1));
+      if (cost >= bestCost) break;
+    }
+
+    if (remaining.length === 0 && cost < bestCost) {
+      bestCost = cost;
+      bestPath = path;
+    }
+  }
+
+  return {
+    tracks: [...bestPath, ...unplaceable],
+    clashes: countClashes(bestPath, features)
+  };
+}
+
+// Number of neighbouring pairs whose keys are not compatible
+export function countClashes(tracks: SpotifyTrack[], features: Map<string, AudioFeatures>): number {
+  let clashes = 0;
+
+  for (let i = 1; i < tracks.length; i++) {
+    const a = features.get(tracks[i - 1].id);
+    const b = features.get(tracks[i].id);
+    const codeA = a && toCamelot(a.key, a.mode);
+    const codeB = b && toCamelot(b.key, b.mode);
+    if (codeA && codeB && !isCompatible(codeA, codeB)) {
+      clashes++;
+    }
+  }
+
+  return clashes;
+}
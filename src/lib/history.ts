@@ -0,0 +1,51 @@
+import Conf from 'conf';
+
+// Local record of playlists spotify-gen has written, so later runs can skip their tracks
+export interface GeneratedPlaylistRecord {
+  playlistId: string;
+  name: string;
+  createdAt: string;  // ISO timestamp
+  trackIds: string[];
+}
+
+interface HistorySchema {
+  playlists: GeneratedPlaylistRecord[];
+}
+
+// Oldest records are dropped beyond this many playlists
+const MAX_RECORDS = 200;
+
+const history = new Conf<HistorySchema>({
+  projectName: 'spotify-playlist-gen',
+  configName: 'history',
+  schema: {
+    playlists: {
+      type: 'array',
+      default: [],
+      items: {
+        type: 'object',
+        properties: {
+          playlistId: { type: 'string' },
+          name: { type: 'string' },
+          createdAt: { type: 'string' },
+          trackIds: { type: 'array', items: { type: 'string' } }
+        }
+      }
+    }
+  }
+});
+
+export function recordGeneratedPlaylist(playlistId: string, name: string, trackIds: string[]): void {
+  const playlists = history.get('playlists');
+  playlists.push({
+    playlistId,
+    name,
+    createdAt: new Date().toISOString(),
+    trackIds
+  });
+  history.set('playlists', playlists.slice(-MAX_RECORDS));
+}
+
+export function getGeneratedTrackIds(): Set<string> {
+  return new Set(history.get('playlists').flatMap(p => p.trackIds));
+}
@@ -0,0 +1,228 @@
+import { AudioFeatures, ListeningMode, SpotifyTrack } from '../types/spotify';
+import { AnalysisData } from './taste-analyzer';
+import { ScoredFeature, SCORED_FEATURES } from './scoring';
+import { featureVector, vectorDistance } from './distributions';
+
+const MAX_MODES = 5;
+const MIN_TRACKS_PER_MODE = 5;
+
+// Below this mean silhouette the clusters overlap too much to call them separate modes
+const MIN_SILHOUETTE = 0.2;
+
+const MAX_ITERATIONS = 50;
+const RESTARTS = 5;
+
+// How many genres, artists and tracks each mode keeps
+const MODE_GENRES = 3;
+const MODE_ARTISTS = 5;
+const MODE_TRACKS = 10;
+
+interface Clustering {
+  assignments: number[];
+  centroids: number[][];
+  inertia: number;
+}
+
+// Group every analysed track by its audio features into listening modes (k-means, k picked
+// by silhouette). Returns a single mode when the listening doesn't split up cleanly.
+export function findListeningModes(data: AnalysisData): ListeningMode[] {
+  const seen = new Set<string>();
+  const tracks: { track: SpotifyTrack; features: AudioFeatures }[] = [];
+  for (const track of [
+    ...data.topTracks.shortTerm,
+    ...data.topTracks.mediumTerm,
+    ...data.topTracks.longTerm,
+    ...data.recentlyPlayed
+  ]) {
+    const features = data.audioFeatures.get(track.id);
+    if (features && !seen.has(track.id)) {
+      seen.add(track.id);
+      tracks.push({ track, features });
+    }
+  }
+
+  if (tracks.length < MIN_TRACKS_PER_MODE) return [];
+
+  const vectors = tracks.map(t => featureVector(t.features));
+  let best: { clustering: Clustering; score: number } | null = null;
+
+  for (let k = 2; k <= MAX_MODES && tracks.length >= k * MIN_TRACKS_PER_MODE; k++) {
+    const clustering = kMeans(vectors, k);
+    const sizes = countSizes(clustering.assignments, k);
+    if (sizes.some(size => size < MIN_TRACKS_PER_MODE)) continue;
+
+    const score = silhouette(vectors, clustering.assignments, k);
+    if (score >= MIN_SILHOUETTE && (!best || score > best.score)) {
+      best = { clustering, score };
+    }
+  }
+
+  const assignments = best ? best.clustering.assignments : vectors.map(() => 0);
+  const k = best ? best.clustering.centroids.length : 1;
+
+  // Genres are only known for the user's top artists
+  const artistGenres = new Map<string, string[]>();
+  for (const artist of [...data.topArtists.shortTerm, ...data.topArtists.mediumTerm, ...data.topArtists.longTerm]) {
+    artistGenres.set(artist.id, artist.genres);
+  }
+
+  const modes: Omit<ListeningMode, 'id' | 'name'>[] = [];
+  for (let cluster = 0; cluster < k; cluster++) {
+    const members = tracks.filter((_, i) => assignments[i] === cluster);
+    const centroid = averageCentroid(members.map(m => m.features));
+    const center = featureVector(centroid);
+
+    const genres = new Map<string, number>();
+    const artists = new Map<string, number>();
+    for (const { track } of members) {
+      for (const artist of track.artists) {
+        artists.set(artist.id, (artists.get(artist.id) || 0) + 1);
+        for (const genre of artistGenres.get(artist.id) || []) {
+          genres.set(genre, (genres.get(genre) || 0) + 1);
+        }
+      }
+    }
+
+    modes.push({
+      share: members.length / tracks.length,
+      centroid,
+      genres: topKeys(genres, MODE_GENRES),
+      artistIds: topKeys(artists, MODE_ARTISTS),
+      trackIds: members
+        .map(m => ({ id: m.track.id, distance: vectorDistance(featureVector(m.features), center) }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, MODE_TRACKS)
+        .map(m => m.id)
+    });
+  }
+
+  const names = new Set<string>();
+  return modes
+    .sort((a, b) => b.share - a.share)
+    .map((mode, i) => {
+      let name = nameMode(mode.centroid, mode.genres);
+      if (names.has(name)) name = `${name} (${Math.round(mode.centroid.tempo)} BPM)`;
+      names.add(name);
+      return { id: i + 1, name, ...mode };
+    });
+}
+
+// e.g. "High-energy dark metal", "Calm acoustic folk"
+function nameMode(centroid: ListeningMode['centroid'], genres: string[]): string {
+  const words: string[] = [];
+  if (centroid.energy >= 0.7) words.push('high-energy');
+  else if (centroid.energy <= 0.35) words.push('calm');
+  if (centroid.valence >= 0.65) words.push('upbeat');
+  else if (centroid.valence <= 0.3) words.push('dark');
+  if (centroid.danceability >= 0.7) words.push('danceable');
+  if (centroid.acousticness >= 0.6) words.push('acoustic');
+  if (centroid.instrumentalness >= 0.5) words.push('instrumental');
+
+  const description = words.length > 0 ? words.slice(0, 2).join(' ') : 'balanced';
+  const name = genres.length > 0 ? `${description} ${genres[0]}` : `${description} mix`;
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function averageCentroid(features: AudioFeatures[]): ListeningMode['centroid'] {
+  const average = (d: ScoredFeature) => features.reduce((sum, f) => sum + f[d], 0) / features.length;
+  return {
+    danceability: average('danceability'),
+    energy: average('energy'),
+    valence: average('valence'),
+    acousticness: average('acousticness'),
+    instrumentalness: average('instrumentalness'),
+    tempo: average('tempo')
+  };
+}
+
+// k-means++ with a fixed seed, so the same listening gives the same numbered modes
+function kMeans(vectors: number[][], k: number): Clustering {
+  const random = seededRandom(k);
+  let best: Clustering | null = null;
+
+  for (let restart = 0; restart < RESTARTS; restart++) {
+    const centroids = [vectors[Math.floor(random() * vectors.length)]];
+    while (centroids.length < k) {
+      const weights = vectors.map(v => Math.min(...centroids.map(c => vectorDistance(v, c))) ** 2);
+      let pick = random() * weights.reduce((sum, w) => sum + w, 0);
+      const index = weights.findIndex(w => (pick -= w) <= 0);
+      centroids.push(vectors[index === -1 ? vectors.length - 1 : index]);
+    }
+
+    let assignments: number[] = [];
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      const next = vectors.map(v => nearest(v, centroids));
+      const changed = next.some((c, i) => c !== assignments[i]);
+      assignments = next;
+      if (!changed) break;
+
+      for (let c = 0; c < k; c++) {
+        const members = vectors.filter((_, i) => assignments[i] === c);
+        if (members.length > 0) {
+          centroids[c] = SCORED_FEATURES.map((_, d) => members.reduce((sum, m) => sum + m[d], 0) / members.length);
+        }
+      }
+    }
+
+    const inertia = vectors.reduce((sum, v, i) => sum + vectorDistance(v, centroids[assignments[i]]) ** 2, 0);
+    if (!best || inertia < best.inertia) {
+      best = { assignments, centroids: [...centroids], inertia };
+    }
+  }
+
+  return best!;
+}
+
+function nearest(vector: number[], centroids: number[][]): number {
+  let best = 0;
+  for (let c = 1; c < centroids.length; c++) {
+    if (vectorDistance(vector, centroids[c]) < vectorDistance(vector, centroids[best])) best = c;
+  }
+  return best;
+}
+
+// Mean silhouette: how much closer tracks are to their own mode than to the next one (-1 to 1)
+function silhouette(vectors: number[][], assignments: number[], k: number): number {
+  let total = 0;
+
+  for (let i = 0; i < vectors.length; i++) {
+    const sums = new Array(k).fill(0);
+    const counts = new Array(k).fill(0);
+    for (let j = 0; j < vectors.length; j++) {
+      if (i === j) continue;
+      sums[assignments[j]] += vectorDistance(vectors[i], vectors[j]);
+      counts[assignments[j]]++;
+    }
+
+    const own = assignments[i];
+    const a = counts[own] > 0 ? sums[own] / counts[own] : 0;
+    const b = Math.min(...sums.map((sum, c) => c === own || counts[c] === 0 ? Infinity : sum / counts[c]));
+    total += Math.max(a, b) > 0 ? (b - a) / Math.max(a, b) : 0;
+  }
+
+  return total / vectors.length;
+}
+
+function countSizes(assignments: number[], k: number): number[] {
+  const sizes = new Array(k).fill(0);
+  for (const c of assignments) sizes[c]++;
+  return sizes;
+}
+
+function topKeys(counts: Map<string, number>, limit: number): string[] {
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([key]) => key);
+}
+
+// mulberry32
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
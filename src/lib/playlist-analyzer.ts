@@ -0,0 +1,252 @@
+import chalk from 'chalk';
+import { spotifyClient } from './spotify-client';
+import { resolvePlaylist } from './playlist-lookup';
+import { buildDistributions, formatDistributions, featureVector, vectorDistance } from './distributions';
+import { formatKey, formatCamelot, toCamelot } from './harmonic';
+import { ScoredFeature, SCORED_FEATURES, TEMPO_SCALE } from './scoring';
+import { AudioFeatures, DistributionFeature, FeatureDistribution, SpotifyPlaylist, SpotifyTrack } from '../types/spotify';
+
+export interface PlaylistData {
+  playlist: SpotifyPlaylist;
+  tracks: SpotifyTrack[];
+  skipped: number;  // Local files and tracks no longer on Spotify
+  audioFeatures: Map<string, AudioFeatures>;
+  artistGenres: Map<string, string[]>;
+}
+
+export interface PlaylistOutlier {
+  id: string;
+  name: string;
+  artists: string[];
+  distance: number;
+  reasons: string[];  // The features that set it apart, e.g. "energy 0.95 vs 0.42"
+}
+
+export interface PlaylistAnalysis {
+  playlist: { id: string; name: string; owner?: string; url: string };
+  trackCount: number;
+  analyzedCount: number;  // Tracks with audio features
+  skipped: number;
+  topGenres: { genre: string; count: number }[];
+  avgFeatures: Record<ScoredFeature, number>;
+  distributions?: Record<DistributionFeature, FeatureDistribution>;
+  keys: {
+    major: number;  // Share of tracks, 0-1
+    minor: number;
+    top: { key: string; camelot: string; count: number }[];
+  };
+  popularity: { avg: number; min: number; max: number };
+  cohesion: number;  // 0-100
+  outliers: PlaylistOutlier[];
+}
+
+// Average distance from the centroid of tracks picked at random; a playlist this spread
+// out scores 0 for cohesion
+const RANDOM_SPREAD = 0.6;
+
+// Outliers sit this many standard deviations beyond the average distance, and at least
+// MIN_OUTLIER_DISTANCE from the centroid so tight playlists don't flag near-identical tracks
+const OUTLIER_DEVIATIONS = 2;
+const MIN_OUTLIER_DISTANCE = 0.35;
+const MAX_OUTLIERS = 10;
+
+// Fetch a playlist's tracks with their audio features and artist genres
+export async function gatherPlaylistData(ref: string): Promise<PlaylistData> {
+  const playlist = await resolvePlaylist(ref);
+  const items = await spotifyClient.getPlaylistTracks(playlist.id);
+  const tracks = items
+    .filter(item => !item.is_local && item.track)
+    .map(item => item.track as SpotifyTrack);
+
+  const audioFeatures = new Map<string, AudioFeatures>();
+  for (const features of await spotifyClient.getAudioFeatures([...new Set(tracks.map(t => t.id))])) {
+    audioFeatures.set(features.id, features);
+  }
+
+  const artistIds = [...new Set(tracks.flatMap(t => t.artists.map(a => a.id)))];
+  const artistGenres = new Map((await spotifyClient.getArtists(artistIds)).map(a => [a.id, a.genres]));
+
+  return { playlist, tracks, skipped: items.length - tracks.length, audioFeatures, artistGenres };
+}
+
+export function analyzePlaylist(data: PlaylistData): PlaylistAnalysis {
+  const { playlist, tracks, audioFeatures, artistGenres } = data;
+  const analyzed = tracks.filter(t => audioFeatures.has(t.id));
+  const features = analyzed.map(t => audioFeatures.get(t.id)!);
+  if (features.length === 0) {
+    throw new Error(`No audio features available for the tracks in "${playlist.name}"`);
+  }
+
+  // Genres of every credited artist, counted once per track
+  const genreCounts = new Map<string, number>();
+  for (const track of tracks) {
+    const genres = new Set(track.artists.flatMap(a => artistGenres.get(a.id) || []));
+    for (const genre of genres) {
+      genreCounts.set(genre, (genreCounts.get(genre) || 0) + 1);
+    }
+  }
+
+  const avgFeatures = {} as Record<ScoredFeature, number>;
+  for (const dimension of SCORED_FEATURES) {
+    avgFeatures[dimension] = features.reduce((sum, f) => sum + f[dimension], 0) / features.length;
+  }
+
+  const keyCounts = new Map<string, { key: number; mode: number; count: number }>();
+  for (const f of features) {
+    if (f.key < 0) continue;  // Key not detected
+    const id = `${f.key}:${f.mode}`;
+    const entry = keyCounts.get(id) || { key: f.key, mode: f.mode, count: 0 };
+    entry.count++;
+    keyCounts.set(id, entry);
+  }
+  const major = features.filter(f => f.mode === 1).length / features.length;
+
+  // Cohesion and outliers come from each track's distance to the playlist's average sound
+  const center = featureVector(avgFeatures);
+  const distances = analyzed.map(t => vectorDistance(featureVector(audioFeatures.get(t.id)!), center));
+  const meanDistance = distances.reduce((sum, d) => sum + d, 0) / distances.length;
+  const deviation = Math.sqrt(distances.reduce((sum, d) => sum + (d - meanDistance) ** 2, 0) / distances.length);
+  const outlierDistance = Math.max(MIN_OUTLIER_DISTANCE, meanDistance + OUTLIER_DEVIATIONS * deviation);
+
+  const outliers = analyzed
+    .map((track, i) => ({ track, distance: distances[i] }))
+    .filter(o => o.distance >= outlierDistance)
+    .sort((a, b) => b.distance - a.distance)
+    .slice(0, MAX_OUTLIERS)
+    .map(({ track, distance }) => ({
+      id: track.id,
+      name: track.name,
+      artists: track.artists.map(a => a.name),
+      distance,
+      reasons: outlierReasons(audioFeatures.get(track.id)!, avgFeatures)
+    }));
+
+  const popularities = tracks.map(t => t.popularity);
+
+  return {
+    playlist: {
+      id: playlist.id,
+      name: playlist.name,
+      owner: playlist.owner?.display_name || playlist.owner?.id,
+      url: playlist.external_urls.spotify
+    },
+    trackCount: tracks.length,
+    analyzedCount: analyzed.length,
+    skipped: data.skipped,
+    topGenres: [...genreCounts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 20)
+      .map(([genre, count]) => ({ genre, count })),
+    avgFeatures,
+    distributions: buildDistributions(features),
+    keys: {
+      major,
+      minor: 1 - major,
+      top: [...keyCounts.values()]
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5)
+        .map(k => ({ key: formatKey(k.key, k.mode), camelot: formatCamelot(toCamelot(k.key, k.mode)), count: k.count }))
+    },
+    popularity: {
+      avg: popularities.reduce((sum, p) => sum + p, 0) / popularities.length,
+      min: Math.min(...popularities),
+      max: Math.max(...popularities)
+    },
+    cohesion: Math.round(100 * Math.max(0, Math.min(1, 1 - meanDistance / RANDOM_SPREAD))),
+    outliers
+  };
+}
+
+export function formatPlaylistAnalysis(analysis: PlaylistAnalysis): string {
+  const lines: string[] = [];
+
+  lines.push(chalk.bold.cyan(`\n🎵 Playlist Profile: ${analysis.playlist.name}\n`));
+  const owner = analysis.playlist.owner ? ` by ${analysis.playlist.owner}` : '';
+  const missing = analysis.trackCount - analysis.analyzedCount;
+  lines.push(chalk.dim(
+    `${analysis.trackCount} tracks${owner}` +
+    (missing > 0 ? ` · ${missing} without audio features` : '') +
+    (analysis.skipped > 0 ? ` · ${analysis.skipped} local or unavailable skipped` : '')
+  ));
+  lines.push(chalk.dim('─'.repeat(50)));
+
+  // Cohesion - how alike the tracks sound
+  lines.push(chalk.bold('\n🧩 Cohesion: ') + `${bar(analysis.cohesion / 100, chalk.green)} ${analysis.cohesion}/100 ${chalk.dim(describeCohesion(analysis.cohesion))}`);
+
+  if (analysis.topGenres.length > 0) {
+    lines.push(chalk.bold('\n📊 Top Genres:'));
+    const maxGenreCount = analysis.topGenres[0].count;
+    for (const { genre, count } of analysis.topGenres.slice(0, 10)) {
+      lines.push(`  ${bar(count / maxGenreCount, chalk.green)} ${genre} ${chalk.dim(`(${count})`)}`);
+    }
+  }
+
+  lines.push(chalk.bold('\n🎚️ Audio Profile:'));
+  const labels: Record<ScoredFeature, string> = {
+    danceability: '💃 Danceability',
+    energy: '⚡ Energy',
+    valence: '😊 Mood (Valence)',
+    acousticness: '🎸 Acousticness',
+    instrumentalness: '🎹 Instrumental',
+    tempo: '🥁 Avg Tempo'
+  };
+  for (const dimension of SCORED_FEATURES) {
+    const value = analysis.avgFeatures[dimension];
+    lines.push(dimension === 'tempo'
+      ? `  ${labels[dimension]}: ${Math.round(value)} BPM`
+      : `  ${labels[dimension]}: ${bar(value, chalk.blue)} ${value.toFixed(2)}`);
+  }
+
+  if (analysis.distributions) {
+    lines.push(chalk.bold('\n📈 Distributions') + chalk.dim(' (low → high, p10 · median · p90):'));
+    lines.push(...formatDistributions(analysis.distributions));
+  }
+
+  lines.push(chalk.bold('\n🎼 Keys:'));
+  lines.push(`  Major ${Math.round(analysis.keys.major * 100)}% · Minor ${Math.round(analysis.keys.minor * 100)}%`);
+  if (analysis.keys.top.length > 0) {
+    lines.push(chalk.dim(`  Most common: ${analysis.keys.top.map(k => `${k.key} (${k.camelot}) ×${k.count}`).join(', ')}`));
+  }
+
+  lines.push(chalk.bold('\n⭐ Popularity:'));
+  lines.push(`  Average ${Math.round(analysis.popularity.avg)}/100 ${chalk.dim(`(${analysis.popularity.min}-${analysis.popularity.max})`)}`);
+
+  lines.push(chalk.bold('\n🎯 Outliers:'));
+  if (analysis.outliers.length === 0) {
+    lines.push(chalk.dim('  None - every track is close to the playlist\'s overall sound'));
+  } else {
+    for (const outlier of analysis.outliers) {
+      lines.push(`  • ${outlier.name} - ${chalk.cyan(outlier.artists.join(', '))}`);
+      lines.push(chalk.dim(`    ${outlier.reasons.join(' · ')}`));
+    }
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+// The two features furthest from the playlist average, e.g. "energy 0.95 vs 0.42"
+function outlierReasons(features: AudioFeatures, average: Record<ScoredFeature, number>): string[] {
+  return SCORED_FEATURES
+    .map(dimension => ({
+      dimension,
+      gap: Math.abs(features[dimension] - average[dimension]) / (dimension === 'tempo' ? TEMPO_SCALE : 1)
+    }))
+    .sort((a, b) => b.gap - a.gap)
+    .slice(0, 2)
+    .map(({ dimension }) => dimension === 'tempo'
+      ? `tempo ${Math.round(features.tempo)} vs ${Math.round(average.tempo)} BPM`
+      : `${dimension} ${features[dimension].toFixed(2)} vs ${average[dimension].toFixed(2)}`);
+}
+
+function describeCohesion(score: number): string {
+  if (score >= 75) return '(tight - the tracks sound alike)';
+  if (score >= 50) return '(consistent with some variety)';
+  if (score >= 25) return '(eclectic)';
+  return '(all over the place)';
+}
+
+function bar(value: number, color: chalk.Chalk): string {
+  const length = Math.round(Math.max(0, Math.min(1, value)) * 20);
+  return color('█'.repeat(length)) + chalk.dim('░'.repeat(20 - length));
+}
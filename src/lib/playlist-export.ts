@@ -0,0 +1,160 @@
+import fs from 'fs';
+import path from 'path';
+import { AudioFeatures, SpotifyTrack } from '../types/spotify';
+
+export type ExportFormat = 'm3u' | 'xspf' | 'csv' | 'json';
+
+// File extensions and the format each one is written in
+const EXTENSIONS: Record<string, ExportFormat> = {
+  '.m3u': 'm3u',
+  '.m3u8': 'm3u',
+  '.xspf': 'xspf',
+  '.csv': 'csv',
+  '.json': 'json'
+};
+
+// Audio features written alongside each track when they're known
+const FEATURE_COLUMNS: (keyof AudioFeatures)[] = [
+  'danceability', 'energy', 'valence', 'acousticness', 'instrumentalness',
+  'speechiness', 'liveness', 'loudness', 'tempo', 'key', 'mode', 'time_signature'
+];
+
+export interface ExportedPlaylist {
+  name: string;
+  description?: string;
+  url?: string;
+}
+
+export interface ExportedTrack {
+  position: number;
+  title: string;
+  artists: string[];
+  album: string;
+  durationMs: number;
+  isrc?: string;
+  uri: string;
+  audioFeatures?: Partial<Record<keyof AudioFeatures, number>>;
+}
+
+export function exportFormatFor(file: string): ExportFormat {
+  const format = EXTENSIONS[path.extname(file).toLowerCase()];
+  if (!format) {
+    throw new Error(`Can't tell the export format of "${file}". Use one of: ${Object.keys(EXTENSIONS).join(', ')}`);
+  }
+  return format;
+}
+
+export function toExportedTracks(tracks: SpotifyTrack[], audioFeatures?: Map<string, AudioFeatures>): ExportedTrack[] {
+  return tracks.map((track, i) => {
+    const features = audioFeatures?.get(track.id);
+    return {
+      position: i + 1,
+      title: track.name,
+      artists: track.artists.map(a => a.name),
+      album: track.album.name,
+      durationMs: track.duration_ms,
+      isrc: track.external_ids?.isrc,
+      uri: track.uri,
+      audioFeatures: features
+        ? Object.fromEntries(FEATURE_COLUMNS.map(column => [column, features[column]]))
+        : undefined
+    };
+  });
+}
+
+export function formatExport(format: ExportFormat, playlist: ExportedPlaylist, tracks: ExportedTrack[]): string {
+  switch (format) {
+    case 'm3u':
+      return formatM3u(playlist, tracks);
+    case 'xspf':
+      return formatXspf(playlist, tracks);
+    case 'csv':
+      return formatCsv(tracks);
+    case 'json':
+      return JSON.stringify({ ...playlist, exportedAt: new Date().toISOString(), tracks }, null, 2) + '\n';
+  }
+}
+
+// Write the tracks in the format the file extension asks for
+export function writeExport(
+  file: string,
+  playlist: ExportedPlaylist,
+  tracks: SpotifyTrack[],
+  audioFeatures?: Map<string, AudioFeatures>
+): ExportFormat {
+  const format = exportFormatFor(file);
+  fs.writeFileSync(file, formatExport(format, playlist, toExportedTracks(tracks, audioFeatures)));
+  return format;
+}
+
+// Extended M3U, with the Spotify URI as each entry's location
+function formatM3u(playlist: ExportedPlaylist, tracks: ExportedTrack[]): string {
+  const lines = ['#EXTM3U', `#PLAYLIST:${playlist.name}`];
+  for (const track of tracks) {
+    lines.push(`#EXTINF:${Math.round(track.durationMs / 1000)},${track.artists.join(', ')} - ${track.title}`);
+    lines.push(`#EXTALB:${track.album}`);
+    lines.push(track.uri);
+  }
+  return lines.join('\n') + '\n';
+}
+
+function formatXspf(playlist: ExportedPlaylist, tracks: ExportedTrack[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${escapeXml(playlist.name)}</title>`
+  ];
+  if (playlist.description) lines.push(`  <annotation>${escapeXml(playlist.description)}</annotation>`);
+  if (playlist.url) lines.push(`  <location>${escapeXml(playlist.url)}</location>`);
+  lines.push(`  <date>${new Date().toISOString()}</date>`);
+  lines.push('  <trackList>');
+
+  for (const track of tracks) {
+    lines.push('    <track>');
+    lines.push(`      <location>${escapeXml(track.uri)}</location>`);
+    if (track.isrc) lines.push(`      <identifier>isrc:${escapeXml(track.isrc)}</identifier>`);
+    lines.push(`      <title>${escapeXml(track.title)}</title>`);
+    lines.push(`      <creator>${escapeXml(track.artists.join(', '))}</creator>`);
+    lines.push(`      <album>${escapeXml(track.album)}</album>`);
+    lines.push(`      <trackNum>${track.position}</trackNum>`);
+    lines.push(`      <duration>${track.durationMs}</duration>`);
+    for (const [feature, value] of Object.entries(track.audioFeatures || {})) {
+      lines.push(`      <meta rel="spotify-gen:${feature}">${value}</meta>`);
+    }
+    lines.push('    </track>');
+  }
+
+  lines.push('  </trackList>');
+  lines.push('</playlist>');
+  return lines.join('\n') + '\n';
+}
+
+// One row per track; audio feature columns are empty when they aren't known
+function formatCsv(tracks: ExportedTrack[]): string {
+  const header = ['position', 'title', 'artists', 'album', 'duration_ms', 'isrc', 'uri', ...FEATURE_COLUMNS];
+  const rows = tracks.map(track => [
+    track.position,
+    track.title,
+    track.artists.join('; '),
+    track.album,
+    track.durationMs,
+    track.isrc || '',
+    track.uri,
+    ...FEATURE_COLUMNS.map(column => track.audioFeatures?.[column] ?? '')
+  ]);
+
+  return [header, ...rows].map(row => row.map(value => escapeCsv(String(value))).join(',')).join('\n') + '\n';
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -1,197 +1,67 @@
 import { spotifyClient } from './spotify-client';
-import { TasteProfile, PlaylistOptions, SpotifyTrack, SpotifyArtist, AudioFeatures, RecommendationParams } from '../types/spotify';
-import { gatherListeningData, buildTasteProfile, AnalysisData } from './taste-analyzer';
+import { TasteProfile, PlaylistOptions, PlaylistPlan, PlanExplanation, ExcludeSource, WeightedIntent, VibeIntent, ProfileCompatibility, ListeningMode, SpotifyTrack, SpotifyArtist, AudioFeatures, RecommendationParams } from '../types/spotify';
+import { gatherListeningData, buildTasteProfile, resolveRangeWeights, describeRangeWeights, AnalysisData } from './taste-analyzer';
+import { ENERGY_ARCS, parseArc, sequenceByEnergy } from './sequencer';
+import { parseVibe, vibeToParams, averageFeatures } from './vibe-parser';
+import { ACTIVITY_PRESETS, ComposedIntent, Composition, composeIntents, formatValue, getPreset, getPresetDefaults } from './presets';
+import { harmonicOrder, toCamelot, formatCamelot, formatKey } from './harmonic';
+import { CadenceTarget, fitsCadenceRange, selectForCadence } from './cadence';
+import { DiversityRules, applyDiversity, hasDiversityRules } from './diversity';
+import { recordGeneratedPlaylist, getGeneratedTrackIds } from './history';
+import { resolvePlaylist } from './playlist-lookup';
+import { readProfile, blendProfiles } from './profile-sharing';
+import { parsePercentileRange, percentileBounds } from './distributions';
+import { mapGenre, seedGenresFor, MIN_GENRE_SCORE, TAXONOMY_SEEDS } from './genre-taxonomy';
+import {
+  RankingOptions,
+  RankedTrack,
+  rankCandidates,
+  scoreTrack,
+  targetsFromParams,
+  parseFeatureWeights,
+  DEFAULT_FEATURE_WEIGHTS,
+  ScoredFeature,
+  DEFAULT_MAX_DEVIATION,
+  STRICT_MAX_DEVIATION
+} from './scoring';
 import chalk from 'chalk';
 
-// Mood presets - maps mood to target audio features
-const MOOD_PRESETS: Record<string, Partial<RecommendationParams>> = {
-  happy: {
-    target_valence: 0.8,
-    target_energy: 0.7,
-    target_danceability: 0.65
-  },
-  sad: {
-    target_valence: 0.2,
-    target_energy: 0.3,
-    target_acousticness: 0.6
-  },
-  energetic: {
-    target_energy: 0.9,
-    target_danceability: 0.8,
-    target_valence: 0.7
-  },
-  chill: {
-    target_energy: 0.3,
-    target_danceability: 0.4,
-    target_acousticness: 0.5,
-    target_valence: 0.5
-  },
-  angry: {
-    target_energy: 0.9,
-    target_valence: 0.2,
-    target_danceability: 0.5
-  },
-  romantic: {
-    target_valence: 0.6,
-    target_energy: 0.4,
-    target_acousticness: 0.5,
-    target_danceability: 0.5
-  }
-};
+type PlaylistType = 'blend' | 'timemachine' | 'genre' | 'run' | 'mode' | 'standard';
 
-// Activity presets
-const ACTIVITY_PRESETS: Record<string, Partial<RecommendationParams>> = {
-  workout: {
-    target_energy: 0.9,
-    target_danceability: 0.75,
-    target_valence: 0.7,
-    target_tempo: 140
-  },
-  focus: {
-    target_energy: 0.4,
-    target_instrumentalness: 0.7,
-    target_valence: 0.5,
-    target_acousticness: 0.3
-  },
-  party: {
-    target_energy: 0.85,
-    target_danceability: 0.9,
-    target_valence: 0.8,
-    min_popularity: 50
-  },
-  sleep: {
-    target_energy: 0.15,
-    target_acousticness: 0.7,
-    target_instrumentalness: 0.5,
-    target_tempo: 70
-  },
-  commute: {
-    target_energy: 0.6,
-    target_valence: 0.6,
-    target_danceability: 0.6
-  },
-  cooking: {
-    target_energy: 0.6,
-    target_valence: 0.7,
-    target_danceability: 0.65
-  }
+// Track counts each generator uses when none is requested
+const DEFAULT_TRACK_COUNTS: Record<PlaylistType, number> = {
+  blend: 30,
+  timemachine: 30,
+  genre: 25,
+  run: 25,
+  mode: 25,
+  standard: 25
 };
 
-// Time of day presets
-const TIME_PRESETS: Record<string, Partial<RecommendationParams>> = {
-  morning: {
-    target_energy: 0.5,
-    target_valence: 0.7,
-    target_acousticness: 0.4
-  },
-  afternoon: {
-    target_energy: 0.65,
-    target_valence: 0.65,
-    target_danceability: 0.6
-  },
-  evening: {
-    target_energy: 0.55,
-    target_valence: 0.55,
-    target_danceability: 0.5
-  },
-  night: {
-    target_energy: 0.35,
-    target_valence: 0.4,
-    target_acousticness: 0.5
-  }
-};
+export const EXCLUDE_SOURCES: ExcludeSource[] = ['known', 'liked', 'generated'];
 
-// Natural language vibe parsing
-function parseVibe(vibe: string): Partial<RecommendationParams> {
-  const params: Partial<RecommendationParams> = {};
-  const lowerVibe = vibe.toLowerCase();
-
-  // Energy keywords
-  if (/\b(hype|pump|intense|powerful|explosive|wild)\b/.test(lowerVibe)) {
-    params.target_energy = 0.9;
-  } else if (/\b(energetic|upbeat|lively|dynamic)\b/.test(lowerVibe)) {
-    params.target_energy = 0.75;
-  } else if (/\b(chill|relaxed|mellow|calm|peaceful|soft)\b/.test(lowerVibe)) {
-    params.target_energy = 0.3;
-  } else if (/\b(ambient|dreamy|floating)\b/.test(lowerVibe)) {
-    params.target_energy = 0.2;
-  }
-
-  // Mood/valence keywords
-  if (/\b(happy|joy|euphoric|celebrat|cheerful|bright)\b/.test(lowerVibe)) {
-    params.target_valence = 0.8;
-  } else if (/\b(sad|melanchol|depress|lonely|heartbreak|cry)\b/.test(lowerVibe)) {
-    params.target_valence = 0.2;
-  } else if (/\b(angry|rage|furious|aggressive)\b/.test(lowerVibe)) {
-    params.target_valence = 0.2;
-    params.target_energy = 0.9;
-  } else if (/\b(romantic|love|sensual|intimate)\b/.test(lowerVibe)) {
-    params.target_valence = 0.6;
-    params.target_energy = 0.4;
-  }
-
-  // Danceability
-  if (/\b(dance|dancing|groove|groovy|funky|disco)\b/.test(lowerVibe)) {
-    params.target_danceability = 0.85;
-  } else if (/\b(sway|bob|movement)\b/.test(lowerVibe)) {
-    params.target_danceability = 0.65;
-  }
-
-  // Acoustic/Electronic
-  if (/\b(acoustic|unplugged|folk|organic)\b/.test(lowerVibe)) {
-    params.target_acousticness = 0.8;
-  } else if (/\b(electronic|synth|techno|house|edm)\b/.test(lowerVibe)) {
-    params.target_acousticness = 0.1;
-    params.target_energy = (params.target_energy || 0.5) + 0.2;
-  }
-
-  // Instrumental
-  if (/\b(instrumental|no vocals|without words|background)\b/.test(lowerVibe)) {
-    params.target_instrumentalness = 0.8;
-  }
-
-  // Tempo hints
-  if (/\b(fast|quick|rapid|racing)\b/.test(lowerVibe)) {
-    params.target_tempo = 140;
-  } else if (/\b(slow|slowdown|laid back)\b/.test(lowerVibe)) {
-    params.target_tempo = 80;
-  }
-
-  // Time-specific
-  if (/\b(morning|sunrise|wake up|breakfast)\b/.test(lowerVibe)) {
-    return { ...TIME_PRESETS.morning, ...params };
-  } else if (/\b(late night|midnight|2am|3am|after hours|coding session)\b/.test(lowerVibe)) {
-    return { 
-      target_energy: 0.45, 
-      target_valence: 0.4, 
-      target_instrumentalness: 0.4,
-      ...params 
-    };
-  } else if (/\b(sunset|golden hour|evening)\b/.test(lowerVibe)) {
-    return { ...TIME_PRESETS.evening, ...params };
-  }
+// How many extra batches to fetch when filtering leaves a playlist short
+const MAX_REFILL_ROUNDS = 3;
 
-  // Activity specific
-  if (/\b(workout|gym|running|exercise|training)\b/.test(lowerVibe)) {
-    return { ...ACTIVITY_PRESETS.workout, ...params };
-  } else if (/\b(study|focus|concentrate|work|productivity)\b/.test(lowerVibe)) {
-    return { ...ACTIVITY_PRESETS.focus, ...params };
-  } else if (/\b(party|club|pregame)\b/.test(lowerVibe)) {
-    return { ...ACTIVITY_PRESETS.party, ...params };
-  } else if (/\b(sleep|bedtime|rest|wind down)\b/.test(lowerVibe)) {
-    return { ...ACTIVITY_PRESETS.sleep, ...params };
-  } else if (/\b(road trip|driving|drive)\b/.test(lowerVibe)) {
-    return { target_energy: 0.7, target_valence: 0.7, target_danceability: 0.6, ...params };
-  } else if (/\b(coffee|cafe|jazz)\b/.test(lowerVibe)) {
-    return { target_energy: 0.4, target_acousticness: 0.6, target_instrumentalness: 0.4, ...params };
-  }
-
-  return params;
-}
+// Time machine: ages covered by --born alone, earliest year searched, most years one
+// playlist spans (every year costs several searches), how many of each year's tracks and
+// of the user's top genres to search
+const HIGH_SCHOOL_AGES = { from: 14, to: 18 };
+const MIN_YEAR = 1950;
+const MAX_TIME_MACHINE_YEARS = 15;
+const TIME_MACHINE_CANDIDATES = 100;
+const TIME_MACHINE_GENRES = 3;
 
 // Generate a blended playlist combining user's taste with specified artists
-async function generateBlendPlaylist(options: PlaylistOptions, tasteProfile: TasteProfile): Promise<SpotifyTrack[]> {
+async function generateBlendPlaylist(
+  options: PlaylistOptions,
+  tasteProfile: TasteProfile,
+  presetParams: Partial<RecommendationParams>,
+  explanation: PlanExplanation
+): Promise<SpotifyTrack[]> {
   const blendArtists = options.blendWith || [];
+  const groupSize = (options.withProfiles?.length || 0) + 1;
+  const isGroup = groupSize > 1;
   const artistIds: string[] = [];
   const artistGenres: string[] = [];
 
@@ -202,133 +72,363 @@ async function generateBlendPlaylist(options: PlaylistOptions, tasteProfile: Tas
       const artist = searchResults.artists.items[0];
       artistIds.push(artist.id);
       artistGenres.push(...artist.genres.slice(0, 3));
+      explainSeeds(explanation, 'artist', [artist.id], `blend artist "${artistName}"`);
     }
   }
 
-  if (artistIds.length === 0) {
+  if (artistIds.length === 0 && !isGroup) {
     throw new Error('Could not find any of the specified artists to blend with');
   }
 
-  // Find overlapping genres between user's taste and blend artists
+  // Map both sides' genres onto seed genres, and put the ones they share first
+  const availableGenres = await spotifyClient.getAvailableGenres();
   const userGenres = tasteProfile.topGenres.map(g => g.genre);
-  const commonGenres = artistGenres.filter(g => 
-    userGenres.some(ug => ug.includes(g) || g.includes(ug))
-  );
+  const userSeeds = seedGenresFor(userGenres, availableGenres, 10);
+  const artistSeeds = seedGenresFor(artistGenres, availableGenres, 5);
+  const commonGenres = artistSeeds.filter(g => userSeeds.includes(g));
 
-  // Get available genre seeds and find matches
-  const availableGenres = await spotifyClient.getAvailableGenres();
-  const validGenreSeeds = [...new Set([...commonGenres, ...artistGenres])]
-    .filter(g => availableGenres.includes(g))
-    .slice(0, 2);
+  // A merged group profile lists the genres everyone shares first
+  const groupGenres = isGroup ? userSeeds : [];
+
+  // Groups get one artist seed per person where the seed limit allows
+  const artistSlots = isGroup ? Math.min(5, Math.max(3, groupSize)) : 3;
 
-  // Build recommendation params blending user + artists
+  const validGenreSeeds = [...new Set([...commonGenres, ...artistSeeds, ...groupGenres])]
+    .slice(0, Math.min(2, 5 - artistSlots));
+
+  // Build recommendation params blending user + artists. A group profile's top
+  // artists already take turns between people, so taking them in order is fair.
+  const tasteArtists = tasteProfile.topArtistIds.slice(0, isGroup ? artistSlots : 1);
   const seedArtists = [
     ...artistIds.slice(0, 2),
-    ...tasteProfile.topArtistIds.slice(0, 1)
-  ].slice(0, 3);
+    ...tasteArtists
+  ].slice(0, artistSlots);
 
   const recParams: RecommendationParams = {
     seed_artists: seedArtists,
     seed_genres: validGenreSeeds.length > 0 ? validGenreSeeds : undefined,
     limit: options.trackCount || 30,
-    // Blend the audio features - average between user's taste and moderate values
-    target_energy: (tasteProfile.avgFeatures.energy + 0.6) / 2,
-    target_valence: (tasteProfile.avgFeatures.valence + 0.6) / 2,
-    target_danceability: (tasteProfile.avgFeatures.danceability + 0.6) / 2
+    // Blend the audio features - a group uses everyone's average, otherwise
+    // average between user's taste and moderate values
+    target_energy: isGroup ? tasteProfile.avgFeatures.energy : (tasteProfile.avgFeatures.energy + 0.6) / 2,
+    target_valence: isGroup ? tasteProfile.avgFeatures.valence : (tasteProfile.avgFeatures.valence + 0.6) / 2,
+    target_danceability: isGroup ? tasteProfile.avgFeatures.danceability : (tasteProfile.avgFeatures.danceability + 0.6) / 2,
+    // Mood/activity/time modifiers take precedence over the neutral blend
+    ...presetParams
   };
 
+  const featureKeys = ['target_energy', 'target_valence', 'target_danceability'];
+  if (isGroup) {
+    explainSeeds(explanation, 'artist', tasteArtists, 'group top artists, one person at a time');
+    explainSeeds(explanation, 'genre', validGenreSeeds, 'genre shared by the group or blend artists');
+    explain(explanation, featureKeys, `average of ${groupSize} taste profiles`);
+  } else {
+    explainSeeds(explanation, 'artist', tasteArtists, 'your top artist');
+    explainSeeds(explanation, 'genre', validGenreSeeds, 'genre of the blend artists');
+    explain(explanation, featureKeys, 'halfway between your taste and 0.6');
+  }
+  explain(explanation, ['limit'], 'requested track count');
+  recordRequest(explanation, recParams);
+
   return spotifyClient.getRecommendations(recParams);
 }
 
-// Generate a time machine playlist based on high school years
-async function generateTimeMachinePlaylist(options: PlaylistOptions, tasteProfile: TasteProfile): Promise<SpotifyTrack[]> {
-  let targetYears: number[] = [];
+// Years a time machine covers: one year, a decade, or an age range (high school by default)
+export function resolveTimeMachineYears(options: PlaylistOptions): { from: number; to: number; ages?: { from: number; to: number } } {
+  if (options.ageRange && !options.birthYear) {
+    throw new Error('--age-range needs --born <year>');
+  }
 
+  let years: { from: number; to: number; ages?: { from: number; to: number } };
   if (options.targetYear) {
-    // Single year specified
-    targetYears = [options.targetYear];
+    years = { from: options.targetYear, to: options.targetYear };
+  } else if (options.decade) {
+    const match = options.decade.trim().match(/^(\d{2}|\d{4})'?s?$/i);
+    if (!match) {
+      throw new Error(`Invalid decade "${options.decade}". Use e.g. 1990s or 90s`);
+    }
+    // "90s" means the 1990s, "20s" the 2020s (or the 1920s once that's in the future)
+    let start = parseInt(match[1]);
+    if (start < 100) start += start + 2000 <= new Date().getFullYear() ? 2000 : 1900;
+    start -= start % 10;
+    years = { from: start, to: start + 9 };
   } else if (options.birthYear) {
-    // Calculate high school years (ages 14-18)
-    const hsStart = options.birthYear + 14;
-    const hsEnd = options.birthYear + 18;
-    for (let year = hsStart; year <= hsEnd; year++) {
-      targetYears.push(year);
+    const match = (options.ageRange || `${HIGH_SCHOOL_AGES.from}-${HIGH_SCHOOL_AGES.to}`).trim().match(/^(\d+)\s*-\s*(\d+)$/);
+    const ages = match ? { from: parseInt(match[1]), to: parseInt(match[2]) } : null;
+    if (!ages || ages.from > ages.to) {
+      throw new Error(`Invalid age range "${options.ageRange}". Use two ages, youngest first (e.g. 14-18)`);
     }
+    if (ages.to - ages.from + 1 > MAX_TIME_MACHINE_YEARS) {
+      throw new Error(
+        `Age range "${options.ageRange}" spans ${ages.to - ages.from + 1} years; ` +
+        `a time machine covers at most ${MAX_TIME_MACHINE_YEARS} (e.g. 20-30)`
+      );
+    }
+    years = { from: options.birthYear + ages.from, to: options.birthYear + ages.to, ages };
   } else {
-    throw new Error('Must specify either birthYear or targetYear for time machine');
+    throw new Error('Must specify a birth year, year or decade for time machine');
   }
 
   // Limit to valid years
-  const currentYear = new Date().getFullYear();
-  targetYears = targetYears.filter(y => y >= 1950 && y <= currentYear);
-
-  if (targetYears.length === 0) {
+  const from = Math.max(years.from, MIN_YEAR);
+  const to = Math.min(years.to, new Date().getFullYear());
+  if (from > to) {
     throw new Error('No valid years to search for');
   }
+  return { ...years, from, to };
+}
+
+// Generate a time machine playlist from tracks released in the chosen years, ranked by how
+// well they fit the user's genres and audio profile rather than by popularity alone
+async function generateTimeMachinePlaylist(
+  options: PlaylistOptions,
+  tasteProfile: TasteProfile,
+  audioFeatures: Map<string, AudioFeatures>,
+  explanation: PlanExplanation
+): Promise<SpotifyTrack[]> {
+  const { from, to } = resolveTimeMachineYears(options);
+  const targetYears: number[] = [];
+  for (let year = from; year <= to; year++) {
+    targetYears.push(year);
+  }
+
+  const trackCount = options.trackCount || 30;
+  const tracksPerYear = Math.ceil(trackCount / targetYears.length);
+  const tasteGenres = tasteProfile.topGenres.slice(0, TIME_MACHINE_GENRES).map(g => g.genre);
+
+  // No recommendations request, so presets and seeds play no part
+  explanation.sources = {};
+  explanation.seeds = [];
+  explanation.notes.push(
+    `Searches tracks released in ${formatYears(from, to)}` +
+    (tasteGenres.length > 0 ? `, including your top genres (${tasteGenres.join(', ')})` : '') +
+    ' (no recommendations request)'
+  );
+  explanation.notes.push('Ranks each year by your genres (45%), audio profile (35%) and popularity (20%)');
+
+  // Fetch candidates from each year: the year's best-known tracks plus the user's genres
+  const candidatesByYear = new Map<number, SpotifyTrack[]>();
+  for (const year of targetYears) {
+    const found = await spotifyClient.searchTracksByYear(year, TIME_MACHINE_CANDIDATES);
+    for (const genre of tasteGenres) {
+      found.push(...await spotifyClient.searchTracksByYear(year, 50, genre));
+    }
+
+    // Search matches re-releases too, so keep tracks whose album came out that year
+    const seen = new Set<string>();
+    candidatesByYear.set(year, found.filter(t => {
+      const key = `${t.name.toLowerCase()}|${t.artists[0]?.id}`;
+      if (seen.has(t.id) || seen.has(key) || releaseYear(t) !== year) return false;
+      seen.add(t.id);
+      seen.add(key);
+      return true;
+    }));
+  }
+
+  const candidates = [...candidatesByYear.values()].flat();
+  await fetchAudioFeatures(candidates, audioFeatures);
+  const artistIds = [...new Set(candidates.flatMap(t => t.artists.map(a => a.id)))];
+  const artistGenres = new Map((await spotifyClient.getArtists(artistIds)).map(a => [a.id, a.genres]));
+
+  const genreFit = tasteGenreFit(tasteProfile);
+  const ranking: RankingOptions = {
+    targets: {
+      danceability: tasteProfile.avgFeatures.danceability,
+      energy: tasteProfile.avgFeatures.energy,
+      valence: tasteProfile.avgFeatures.valence,
+      acousticness: tasteProfile.avgFeatures.acousticness,
+      instrumentalness: tasteProfile.avgFeatures.instrumentalness,
+      tempo: tasteProfile.avgFeatures.tempo
+    },
+    weights: DEFAULT_FEATURE_WEIGHTS,
+    maxDeviation: Infinity,
+    tasteRanges: tasteProfile.featureRanges
+  };
+
+  const score = (track: SpotifyTrack): number => {
+    const genres = track.artists.flatMap(a => artistGenres.get(a.id) || []);
+    const features = audioFeatures.get(track.id);
+    // Tracks without audio features can't be compared, so they count as middling
+    const featureFit = features ? Math.max(0, 1 - scoreTrack(track, features, ranking)! / 0.5) : 0.5;
+    return 0.45 * genreFit(genres) + 0.35 * featureFit + 0.2 * track.popularity / 100;
+  };
 
   const allTracks: SpotifyTrack[] = [];
   const trackIds = new Set<string>();
-  const tracksPerYear = Math.ceil((options.trackCount || 30) / targetYears.length);
-
-  // Fetch tracks from each year
   for (const year of targetYears) {
-    const yearTracks = await spotifyClient.searchTracksByYear(year, tracksPerYear + 20);
-    
-    // Sort by popularity to get the hits from that year
-    const sortedTracks = yearTracks
+    const best = (candidatesByYear.get(year) || [])
       .filter(t => !trackIds.has(t.id))
-      .sort((a, b) => b.popularity - a.popularity)
+      .map(track => ({ track, score: score(track) }))
+      .sort((a, b) => b.score - a.score)
       .slice(0, tracksPerYear);
 
-    for (const track of sortedTracks) {
+    for (const { track } of best) {
       trackIds.add(track.id);
       allTracks.push(track);
     }
   }
 
-  // Shuffle to mix years together
-  return allTracks.sort(() => Math.random() - 0.5).slice(0, options.trackCount || 30);
+  // Shuffle to mix years together (an energy arc reorders them later if requested)
+  return allTracks.sort(() => Math.random() - 0.5).slice(0, trackCount);
+}
+
+// How well a track's artist genres fit the user's top genres (0-1). An exact genre counts
+// fully, one that maps to the same seed genre as one of theirs ("uk garage" vs "garage") half.
+function tasteGenreFit(tasteProfile: TasteProfile): (genres: string[]) => number {
+  const maxCount = tasteProfile.topGenres[0]?.count || 1;
+  const exact = new Map<string, number>();
+  const related = new Map<string, number>();
+  for (const { genre, count } of tasteProfile.topGenres) {
+    const weight = count / maxCount;
+    exact.set(genre, weight);
+    const [match] = mapGenre(genre, TAXONOMY_SEEDS, 1);
+    if (match && match.score >= MIN_GENRE_SCORE) {
+      related.set(match.seed, Math.max(related.get(match.seed) || 0, weight / 2));
+    }
+  }
+
+  // Candidates share a lot of genres, so each is only mapped once
+  const fits = new Map<string, number>();
+  const fit = (genre: string): number => {
+    if (!fits.has(genre)) {
+      const [match] = mapGenre(genre, TAXONOMY_SEEDS, 1);
+      const relatedFit = match && match.score >= MIN_GENRE_SCORE ? related.get(match.seed) || 0 : 0;
+      fits.set(genre, Math.max(exact.get(genre) || 0, relatedFit));
+    }
+    return fits.get(genre)!;
+  };
+
+  return (genres: string[]) => Math.max(0, ...genres.map(fit));
+}
+
+function releaseYear(track: SpotifyTrack): number {
+  return parseInt(track.album.release_date?.slice(0, 4) || '');
+}
+
+function formatYears(from: number, to: number): string {
+  return from === to ? `${from}` : `${from}-${to}`;
+}
+
+// Generate a running playlist whose tempos match a cadence (or a ramp between two cadences)
+async function generateRunPlaylist(
+  options: PlaylistOptions,
+  tasteProfile: TasteProfile,
+  presetParams: Partial<RecommendationParams>,
+  audioFeatures: Map<string, AudioFeatures>,
+  warnings: string[],
+  explanation: PlanExplanation
+): Promise<SpotifyTrack[]> {
+  const target: CadenceTarget = {
+    start: options.cadence!,
+    end: options.cadenceEnd ?? options.cadence!,
+    tolerance: options.cadenceTolerance ?? 4
+  };
+  const midCadence = (target.start + target.end) / 2;
+  // The cadence decides the tempo, so --within only bounds the other features
+  const bounds = { ...tasteBounds(options, tasteProfile) };
+  delete bounds.tempo;
+  const targetDurationMs = options.duration ? options.duration * 60 * 1000 : 0;
+  const trackCount = options.trackCount || Math.ceil((options.duration || 0) / 3.5) || 25;
+  const maxRounds = 10;
+
+  const candidates: SpotifyTrack[] = [];
+  const seenIds = new Set<string>();
+  let selected: SpotifyTrack[] = [];
+
+  const isComplete = (tracks: SpotifyTrack[]) => targetDurationMs
+    ? tracks.reduce((sum, t) => sum + t.duration_ms, 0) >= targetDurationMs
+    : tracks.length >= trackCount;
+
+  for (let round = 0; round < maxRounds && !isComplete(selected); round++) {
+    // Alternate between full-time and half-time tempo hints
+    const recParams: RecommendationParams = {
+      ...ACTIVITY_PRESETS.workout,
+      ...presetParams,
+      seed_artists: [...tasteProfile.topArtistIds].sort(() => Math.random() - 0.5).slice(0, 3),
+      seed_tracks: [...tasteProfile.topTrackIds].sort(() => Math.random() - 0.5).slice(0, 2),
+      target_tempo: round % 2 === 0 ? midCadence : midCadence / 2,
+      limit: 100
+    };
+
+    if (round === 0) {
+      explainSeeds(explanation, 'artist', recParams.seed_artists!, 'random pick from your top artists', true);
+      explainSeeds(explanation, 'track', recParams.seed_tracks!, 'random pick from your top tracks', true);
+      explain(explanation, Object.keys(ACTIVITY_PRESETS.workout), 'workout preset (running default)');
+      explain(explanation, ['target_tempo'], `cadence ${midCadence} spm (later rounds try half-time)`, true);
+      explain(explanation, ['limit'], 'over-fetch to filter by tempo');
+      explanation.notes.push(`Keeps tracks within ±${target.tolerance} BPM of the cadence, counting half- and double-time`);
+      recordRequest(explanation, recParams);
+    }
+
+    const batch = (await spotifyClient.getRecommendations(recParams)).filter(t => !seenIds.has(t.id));
+    batch.forEach(t => seenIds.add(t.id));
+    await fetchAudioFeatures(batch, audioFeatures);
+
+    candidates.push(...batch.filter(t => {
+      const features = audioFeatures.get(t.id);
+      return features && fitsCadenceRange(features.tempo, target) && isWithinBounds(features, bounds);
+    }));
+
+    // For a duration target, grow the slot count until the selection is long enough
+    let slots = trackCount;
+    selected = selectForCadence(candidates, audioFeatures, target, slots);
+    while (targetDurationMs && !isComplete(selected) && slots < candidates.length) {
+      slots++;
+      selected = selectForCadence(candidates, audioFeatures, target, slots);
+    }
+  }
+
+  if (!isComplete(selected)) {
+    const within = options.within ? ` and your ${options.within} range` : '';
+    warnings.push(`Only found ${selected.length} tracks within ±${target.tolerance} BPM of the cadence${within}`);
+  }
+
+  // Trim to target duration
+  if (targetDurationMs) {
+    let accumulatedDuration = 0;
+    selected = selected.filter(t => {
+      if (accumulatedDuration >= targetDurationMs) return false;
+      accumulatedDuration += t.duration_ms;
+      return true;
+    });
+  }
+
+  return selected;
 }
 
 // Generate a genre deep dive playlist with obscure tracks
-async function generateGenreDeepDive(options: PlaylistOptions, tasteProfile: TasteProfile): Promise<SpotifyTrack[]> {
+async function generateGenreDeepDive(
+  options: PlaylistOptions,
+  tasteProfile: TasteProfile,
+  presetParams: Partial<RecommendationParams>,
+  explanation: PlanExplanation
+): Promise<SpotifyTrack[]> {
   const genre = options.genre;
   if (!genre) {
     throw new Error('Must specify a genre for deep dive');
   }
 
-  // Check if genre is available for recommendations
+  // Map the requested genre onto the closest seed genre the API accepts
   const availableGenres = await spotifyClient.getAvailableGenres();
-  const matchedGenre = availableGenres.find(g => 
-    g.toLowerCase() === genre.toLowerCase() ||
-    g.toLowerCase().includes(genre.toLowerCase()) ||
-    genre.toLowerCase().includes(g.toLowerCase())
-  );
-
-  if (!matchedGenre) {
-    // Try to find a related genre
-    const fuzzyMatch = availableGenres.find(g => 
-      g.toLowerCase().split('-').some(part => genre.toLowerCase().includes(part)) ||
-      genre.toLowerCase().split(' ').some(part => g.toLowerCase().includes(part))
-    );
-    
-    if (!fuzzyMatch) {
-      throw new Error(`Genre "${genre}" not available. Try: ${availableGenres.slice(0, 10).join(', ')}...`);
-    }
+  const [match] = mapGenre(genre, availableGenres, 1);
+  if (!match || match.score < MIN_GENRE_SCORE) {
+    throw new Error(`Genre "${genre}" not available. Try: ${availableGenres.slice(0, 10).join(', ')}... (see spotify-gen genres)`);
   }
 
-  const genreSeed = matchedGenre || genre;
+  const genreSeed = match.seed;
   const isDeepCuts = options.deepCuts !== false; // Default to deep cuts
 
   // First get some recommendations in the genre
   const recParams: RecommendationParams = {
-    seed_genres: [genreSeed],
     limit: 100, // Get more to filter
     // For deep cuts, target lower popularity
     max_popularity: isDeepCuts ? 40 : undefined,
     // Blend slightly with user's audio preferences
     target_energy: tasteProfile.avgFeatures.energy,
-    target_valence: tasteProfile.avgFeatures.valence
+    target_valence: tasteProfile.avgFeatures.valence,
+    ...presetParams,
+    // The requested genre wins over any genres from a preset
+    seed_genres: [genreSeed]
   };
 
   // Also add one user artist seed if they have any in similar genre
@@ -337,6 +437,18 @@ async function generateGenreDeepDive(options: PlaylistOptions, tasteProfile: Tas
     recParams.seed_artists = [userArtistIds[0]];
   }
 
+  explainSeeds(explanation, 'genre', [genreSeed], match.seed === genre.toLowerCase()
+    ? `requested genre "${genre}"`
+    : `requested genre "${genre}" (${match.reason}, ${Math.round(match.score * 100)}% match)`);
+  explainSeeds(explanation, 'artist', recParams.seed_artists || [], 'your top artist');
+  explain(explanation, ['max_popularity'], 'deep cuts');
+  explain(explanation, ['target_energy', 'target_valence'], 'your taste profile average');
+  explain(explanation, ['limit'], 'over-fetch to filter deep cuts');
+  if (isDeepCuts) {
+    explanation.notes.push('Drops tracks with popularity 50 or higher');
+  }
+  recordRequest(explanation, recParams);
+
   let tracks = await spotifyClient.getRecommendations(recParams);
 
   // If looking for deep cuts, filter by popularity
@@ -364,53 +476,538 @@ async function generateGenreDeepDive(options: PlaylistOptions, tasteProfile: Tas
   return tracks.slice(0, options.trackCount || 25);
 }
 
-export async function generatePlaylist(options: PlaylistOptions): Promise<{
-  tracks: SpotifyTrack[];
-  playlistUrl?: string;
-  playlistName: string;
-}> {
+// Plan a playlist: run the full generation pipeline without writing anything to Spotify
+export async function planPlaylist(options: PlaylistOptions): Promise<PlaylistPlan> {
+  options = withPresetDefaults(options);
+
   // Gather user's listening data for personalization
+  const weights = resolveRangeWeights(options.range, options.rangeWeights);
   const data = await gatherListeningData();
-  const tasteProfile = buildTasteProfile(data);
+  let tasteProfile = buildTasteProfile(data, weights);
+
+  // Blending with friends' exported profiles replaces the taste profile with the group's
+  let group: { names: string[]; compatibility: ProfileCompatibility } | undefined;
+  if (options.withProfiles && options.withProfiles.length > 0) {
+    const friends = options.withProfiles.map(readProfile);
+    const blended = blendProfiles([
+      { label: 'You', profile: tasteProfile },
+      ...friends.map(f => ({ label: f.owner, profile: f.profile }))
+    ]);
+    tasteProfile = blended.profile;
+    group = { names: friends.map(f => f.owner), compatibility: blended.compatibility };
+  }
+
+  const type = getPlaylistType(options);
+  const audioFeatures = new Map<string, AudioFeatures>();
+  const warnings: string[] = [];
+
+  // Blend every mood/activity/time/vibe intent (and the listening mode) into one set of targets
+  const vibe = options.vibe ? await resolveVibe(options.vibe, audioFeatures, warnings) : undefined;
+  const mode = options.listeningMode !== undefined ? await resolveListeningMode(tasteProfile, options.listeningMode) : undefined;
+  const composition = composeIntents(await mapIntentGenres(collectIntents(options, vibe?.params, mode), warnings));
+  const presetParams = composition.params;
+  warnings.push(...composition.conflicts);
+  const explanation = explainComposition(type, composition, vibe?.intent);
+  if (type === 'timemachine' && composition.intents.length > 0) {
+    warnings.push('Mood, activity and time modifiers are not used for time machine playlists');
+  }
+  if (options.range || options.rangeWeights) {
+    explanation.notes.push(`Taste profile weighting: ${describeRangeWeights(weights)}`);
+  }
+  if (options.within) {
+    checkWithin(options, tasteProfile, type, composition, explanation, warnings);
+  }
+  // Only the standard generator ranks candidates against the targets
+  if (type !== 'standard' && type !== 'mode') {
+    const ignored = [
+      options.strict ? '--strict' : '',
+      options.featureWeights ? '--feature-weights' : '',
+      options.maxDeviation !== undefined ? '--max-deviation' : ''
+    ].filter(Boolean);
+    if (ignored.length > 0) {
+      warnings.push(`${ignored.join(', ')} ${ignored.length === 1 ? 'is' : 'are'} ignored: blend, time machine, genre and run playlists don't re-rank tracks against targets`);
+    }
+  }
 
   // Handle special playlist types
-  if (options.blendWith && options.blendWith.length > 0) {
-    const tracks = await generateBlendPlaylist(options, tasteProfile);
-    return finalizePlaylist(options, tracks, 'blend');
+  // Refill rounds pass throwaway warnings and explanation so only the first round is reported
+  const generate = (generatorWarnings: string[], generatorExplanation: PlanExplanation): Promise<SpotifyTrack[]> => {
+    switch (type) {
+      case 'run':
+        return generateRunPlaylist(options, tasteProfile, presetParams, audioFeatures, generatorWarnings, generatorExplanation);
+      case 'blend':
+        return generateBlendPlaylist(options, tasteProfile, presetParams, generatorExplanation);
+      case 'timemachine':
+        return generateTimeMachinePlaylist(options, tasteProfile, audioFeatures, generatorExplanation);
+      case 'genre':
+        return generateGenreDeepDive(options, tasteProfile, presetParams, generatorExplanation);
+      default:
+        // Listening modes are standard playlists with the mode's targets and seeds
+        return generateStandardPlaylist(options, tasteProfile, presetParams, audioFeatures, generatorWarnings, generatorExplanation, vibe?.intent.years);
+    }
+  };
+
+  const candidates = await generate(warnings, explanation);
+  let tracks = candidates;
+
+  // Apply exclusions and artist/album limits, fetching replacement candidates
+  // to keep the requested size
+  const excludedIds = await loadExcludedTrackIds(options.exclude || [], data);
+  const rules: DiversityRules = {
+    maxPerArtist: options.maxPerArtist,
+    maxPerAlbum: options.maxPerAlbum,
+    artistSpacing: options.artistSpacing
+  };
+  const select = (list: SpotifyTrack[]) => {
+    const allowed = list.filter(t => !excludedIds.has(t.id));
+    return hasDiversityRules(rules) ? applyDiversity(allowed, rules).tracks : allowed;
+  };
+  const isFull = (list: SpotifyTrack[]) => options.duration
+    ? list.reduce((sum, t) => sum + t.duration_ms, 0) >= options.duration * 60 * 1000
+    : list.length >= (options.trackCount || DEFAULT_TRACK_COUNTS[type]);
+
+  if (excludedIds.size > 0 || hasDiversityRules(rules)) {
+    tracks = select(candidates);
+
+    for (let round = 0; round < MAX_REFILL_ROUNDS && !isFull(tracks); round++) {
+      const seenIds = new Set(candidates.map(t => t.id));
+      const moreTracks = (await generate([], explainComposition(type, composition))).filter(t => !seenIds.has(t.id));
+      if (moreTracks.length === 0) break;
+
+      candidates.push(...moreTracks);
+      tracks = select(candidates);
+    }
+
+    tracks = trimToSize(tracks, options, DEFAULT_TRACK_COUNTS[type]);
+    if (!isFull(tracks)) {
+      warnings.push(`Only ${tracks.length} tracks remained after exclusions and artist/album limits`);
+    }
   }
 
-  if (options.birthYear || options.targetYear) {
-    const tracks = await generateTimeMachinePlaylist(options, tasteProfile);
-    return finalizePlaylist(options, tracks, 'timemachine');
+  // Order the tracks: harmonic mixing takes precedence over an energy curve,
+  // and a progressive cadence ramp already fixes the order
+  await fetchAudioFeatures(tracks, audioFeatures);
+  const arc = resolveArc(options);
+  const isRamp = type === 'run' && options.cadenceEnd !== undefined;
+
+  if (isRamp) {
+    // The cadence ramp already decided the order
+  } else if (options.harmonic) {
+    const harmonic = harmonicOrder(tracks, audioFeatures);
+    tracks = harmonic.tracks;
+    if (harmonic.clashes > 0) {
+      warnings.push(`No fully harmonic order found: ${harmonic.clashes} of ${tracks.length - 1} transitions clash`);
+    }
+  } else if (arc) {
+    tracks = sequenceByEnergy(tracks, audioFeatures, arc);
   }
 
-  if (options.genre) {
-    const tracks = await generateGenreDeepDive(options, tasteProfile);
-    return finalizePlaylist(options, tracks, 'genre');
+  // Reordering can bring an artist back together, so re-apply the spacing last
+  if (rules.artistSpacing) {
+    const spaced = applyDiversity(tracks, { artistSpacing: rules.artistSpacing });
+    tracks = spaced.tracks;
+    if (spaced.dropped.length > 0) {
+      warnings.push(`Dropped ${spaced.dropped.length} tracks that could not be spaced ${rules.artistSpacing} slots from the same artist`);
+    }
   }
 
-  // Build recommendation parameters
-  let recParams: RecommendationParams = {
-    limit: options.trackCount || 25
+  return {
+    ...buildPlan(options, tracks, type, group?.names, mode?.mode),
+    audioFeatures,
+    composition,
+    vibe: vibe?.intent,
+    explanation,
+    compatibility: group?.compatibility,
+    warnings
+  };
+}
+
+// Start an explanation with the values and seeds that came from presets and the vibe
+function explainComposition(type: PlaylistType, composition: Composition, vibe?: VibeIntent): PlanExplanation {
+  const explanation: PlanExplanation = { type, sources: {}, seeds: [], notes: [] };
+
+  for (const key of Object.keys(composition.params)) {
+    if (key.startsWith('seed_')) continue;
+    const labels = composition.intents
+      .filter(i => i.params[key as keyof RecommendationParams] !== undefined)
+      .map(i => {
+        const feature = key.replace(/^target_/, '') as keyof VibeIntent['targets'];
+        const words = i.label.startsWith('vibe ') && vibe?.targets[feature]?.sources;
+        return words ? `vibe words "${words.join('", "')}"` : intentSource(i);
+      });
+    explanation.sources[key] = labels.length > 1 ? `blend of ${labels.join(', ')}` : labels[0];
+  }
+
+  if (vibe?.reference) {
+    const adjusted = Object.keys(vibe.reference.adjustments);
+    explain(explanation, adjusted.map(f => `target_${f}`), `vibe: like ${vibe.reference.name}, adjusted`, true);
+  }
+  if (vibe?.popularity) {
+    explain(explanation, ['min_popularity', 'max_popularity'], `vibe words "${vibe.popularity.source}"`, true);
+  }
+
+  const seedSource = (seed: string) => {
+    const vibeGenre = vibe?.genres.find(g => g.genre === seed);
+    if (vibeGenre) return `vibe words "${vibeGenre.source}"`;
+    const intent = composition.intents.find(i => !i.label.startsWith('vibe ') &&
+      [i.params.seed_artists, i.params.seed_tracks, i.params.seed_genres].some(seeds => seeds?.includes(seed)));
+    return intent ? intentSource(intent) : `vibe: like ${vibe?.reference?.name}`;
+  };
+  for (const seed of composition.params.seed_artists || []) explainSeeds(explanation, 'artist', [seed], seedSource(seed));
+  for (const seed of composition.params.seed_tracks || []) explainSeeds(explanation, 'track', [seed], seedSource(seed));
+  for (const seed of composition.params.seed_genres || []) explainSeeds(explanation, 'genre', [seed], seedSource(seed));
+
+  return explanation;
+}
+
+// Presets are labelled by their quoted name; other intents describe themselves
+function intentSource(intent: ComposedIntent): string {
+  return intent.label.startsWith('"') ? `${intent.label} preset` : intent.label;
+}
+
+// Note where parameters came from; earlier sources win unless `override` is set,
+// mirroring how later assignments replace earlier ones
+function explain(explanation: PlanExplanation, keys: string[], source: string, override = false): void {
+  for (const key of keys) {
+    if (override || !explanation.sources[key]) {
+      explanation.sources[key] = source;
+    }
+  }
+}
+
+function explainSeeds(
+  explanation: PlanExplanation,
+  type: 'artist' | 'track' | 'genre',
+  ids: string[],
+  source: string,
+  random = false
+): void {
+  for (const id of ids) {
+    if (!explanation.seeds.some(s => s.type === type && s.id === id)) {
+      explanation.seeds.push({ type, id, source, random });
+    }
+  }
+}
+
+// Keep the first recommendations request, dropping notes about values and seeds it didn't use
+function recordRequest(explanation: PlanExplanation, params: RecommendationParams): void {
+  if (explanation.params) return;
+
+  explanation.params = JSON.parse(JSON.stringify(params));
+  const sent = explanation.params!;
+  explanation.sources = Object.fromEntries(
+    Object.entries(explanation.sources).filter(([key]) => !key.startsWith('seed_') && sent[key as keyof RecommendationParams] !== undefined)
+  );
+  // The client sends at most 5 seeds, artists first, then tracks, then genres
+  const used = [...(sent.seed_artists || []), ...(sent.seed_tracks || []), ...(sent.seed_genres || [])].slice(0, 5);
+  explanation.seeds = explanation.seeds.filter(seed => used.includes(seed.id));
+}
+
+// Track IDs to leave out: the user's top/recent tracks, saved library and/or earlier generations
+async function loadExcludedTrackIds(sources: ExcludeSource[], data: AnalysisData): Promise<Set<string>> {
+  const excluded = new Set<string>();
+
+  for (const source of sources) {
+    switch (source) {
+      case 'known': {
+        const known = [
+          ...data.topTracks.shortTerm,
+          ...data.topTracks.mediumTerm,
+          ...data.topTracks.longTerm,
+          ...data.recentlyPlayed
+        ];
+        known.forEach(t => excluded.add(t.id));
+        break;
+      }
+      case 'liked': {
+        let saved: SpotifyTrack[];
+        try {
+          saved = await spotifyClient.getSavedTracks();
+        } catch (err: any) {
+          // Logins from before liked songs were used lack the user-library-read scope
+          if (/Spotify API error: 403\b/.test(err.message)) {
+            throw new Error('Your Spotify login can\'t read your liked songs yet. Run: spotify-gen auth, then try --exclude liked again');
+          }
+          throw err;
+        }
+        saved.forEach(t => excluded.add(t.id));
+        break;
+      }
+      case 'generated':
+        getGeneratedTrackIds().forEach(id => excluded.add(id));
+        break;
+      default:
+        throw new Error(`Unknown exclude source "${source}". Choose from: ${EXCLUDE_SOURCES.join(', ')}`);
+    }
+  }
+
+  return excluded;
+}
+
+// Parse the vibe and look up the artist or track it compares itself to
+async function resolveVibe(
+  vibe: string,
+  audioFeatures: Map<string, AudioFeatures>,
+  warnings: string[]
+): Promise<{ intent: VibeIntent; params: Partial<RecommendationParams> }> {
+  const intent = parseVibe(vibe);
+  const seeds: Partial<RecommendationParams> = {};
+  let referenceTracks: SpotifyTrack[] = [];
+
+  if (intent.reference) {
+    const { type, name } = intent.reference;
+    if (type === 'artist') {
+      const results = await spotifyClient.search(name, ['artist'], 1);
+      const artist = results.artists?.items[0];
+      if (artist) {
+        seeds.seed_artists = [artist.id];
+        referenceTracks = await spotifyClient.getArtistTopTracks(artist.id);
+      }
+    } else {
+      const [title, artist] = name.split(/\s+by\s+/i);
+      const results = await spotifyClient.search(artist ? `track:${title} artist:${artist}` : title, ['track'], 1);
+      const track = results.tracks?.items[0];
+      if (track) {
+        seeds.seed_tracks = [track.id];
+        referenceTracks = [track];
+      }
+    }
+
+    if (!seeds.seed_artists && !seeds.seed_tracks) {
+      warnings.push(`Couldn't find the ${type} "${name}" from the vibe on Spotify`);
+    }
+  }
+
+  await fetchAudioFeatures(referenceTracks, audioFeatures);
+  const referenceFeatures = averageFeatures(
+    referenceTracks.map(t => audioFeatures.get(t.id)).filter((f): f is AudioFeatures => f !== undefined)
+  );
+
+  const params = { ...vibeToParams(intent, referenceFeatures), ...seeds };
+  if (Object.keys(params).length === 0 && !intent.years) {
+    warnings.push(`Nothing recognisable in the vibe "${vibe}", so it follows your usual taste`);
+  }
+
+  return { intent, params };
+}
+
+// Validate --within, note the bounds it sets and warn about targets it leaves little room for
+function checkWithin(
+  options: PlaylistOptions,
+  tasteProfile: TasteProfile,
+  type: PlaylistType,
+  composition: Composition,
+  explanation: PlanExplanation,
+  warnings: string[]
+): void {
+  const range = options.within!;
+  const bounds = tasteBounds(options, tasteProfile);
+  if (!bounds) {
+    warnings.push(`--within ${range} is ignored: blended group profiles have no listening distributions`);
+    return;
+  }
+  if (type !== 'standard' && type !== 'mode' && type !== 'run') {
+    warnings.push(`--within ${range} only applies to mood, activity, time, vibe, mode and run playlists`);
+    return;
+  }
+
+  // Run playlists take their tempo from the cadence
+  const applied = Object.entries(bounds).filter(([feature]) => type !== 'run' || feature !== 'tempo');
+  const described = applied.map(([feature, bound]) => `${feature} ${formatRange(feature, bound)}`);
+  explanation.notes.push(`Leaves out tracks outside your ${range} range: ${described.join(', ')}`);
+
+  for (const [feature, bound] of applied) {
+    const key = `target_${feature}`;
+    const target = composition.params[key as keyof RecommendationParams];
+    if (typeof target === 'number' && (target < bound.min || target > bound.max)) {
+      warnings.push(
+        `The ${feature} target (${formatValue(key, target)}) is outside your ${range} range ` +
+        `(${formatRange(feature, bound)}), so few tracks will fit`
+      );
+    }
+  }
+}
+
+function formatRange(feature: string, bound: { min: number; max: number }): string {
+  return feature === 'tempo'
+    ? `${Math.round(bound.min)}-${Math.round(bound.max)} BPM`
+    : `${formatValue(`target_${feature}`, bound.min)}-${formatValue(`target_${feature}`, bound.max)}`;
+}
+
+// Look up a listening mode and turn its centroid, tracks, artists and genre into request values
+async function resolveListeningMode(
+  tasteProfile: TasteProfile,
+  id: number
+): Promise<{ mode: ListeningMode; params: Partial<RecommendationParams> }> {
+  const modes = tasteProfile.modes || [];
+  const mode = modes.find(m => m.id === id);
+  if (!mode) {
+    throw new Error(modes.length > 0
+      ? `No listening mode ${id}. Your listening has modes 1-${modes.length} (see: spotify-gen analyze)`
+      : 'Not enough listening history to find listening modes yet');
+  }
+
+  const availableGenres = await spotifyClient.getAvailableGenres();
+  const [genre] = seedGenresFor(mode.genres, availableGenres, 1);
+
+  const params: Partial<RecommendationParams> = {
+    seed_artists: mode.artistIds.slice(0, 2),
+    seed_tracks: mode.trackIds.slice(0, genre ? 2 : 3),
+    seed_genres: genre ? [genre] : undefined,
+    target_danceability: mode.centroid.danceability,
+    target_energy: mode.centroid.energy,
+    target_valence: mode.centroid.valence,
+    target_acousticness: mode.centroid.acousticness,
+    target_instrumentalness: mode.centroid.instrumentalness,
+    target_tempo: mode.centroid.tempo
   };
 
-  // Apply presets based on options
-  if (options.mood && MOOD_PRESETS[options.mood]) {
-    recParams = { ...recParams, ...MOOD_PRESETS[options.mood] };
+  return { mode, params };
+}
+
+// The subcommand's own mood/activity/time (weight 1), any weighted modifiers, the vibe and the listening mode
+function collectIntents(
+  options: PlaylistOptions,
+  vibeParams?: Partial<RecommendationParams>,
+  mode?: { mode: ListeningMode; params: Partial<RecommendationParams> }
+): ComposedIntent[] {
+  const intents: ComposedIntent[] = [];
+  const primary: WeightedIntent[] = [];
+
+  if (options.mood) primary.push({ kind: 'mood', name: options.mood, weight: 1 });
+  if (options.activity) primary.push({ kind: 'activity', name: options.activity, weight: 1 });
+  if (options.timeOfDay) primary.push({ kind: 'time', name: options.timeOfDay, weight: 1 });
+
+  for (const intent of [...primary, ...(options.modifiers || [])]) {
+    const params = getPreset(intent);
+    if (!params) {
+      throw new Error(`Unknown ${intent.kind} "${intent.name}"`);
+    }
+    if (!(intent.weight > 0)) {
+      throw new Error(`Weight for ${intent.kind} "${intent.name}" must be a positive number`);
+    }
+    intents.push({ label: `"${intent.name}"`, weight: intent.weight, params });
+  }
+
+  if (options.vibe && vibeParams) {
+    intents.push({ label: `vibe "${options.vibe}"`, weight: 1, params: vibeParams });
+  }
+
+  if (mode) {
+    intents.push({ label: `listening mode ${mode.mode.id} "${mode.mode.name}"`, weight: 1, params: mode.params });
+  }
+
+  return intents;
+}
+
+// Presets and vibes name genres freely ("indie-folk"), so swap each for the closest seed genre
+// the API accepts, and leave out the ones nothing is close to
+async function mapIntentGenres(intents: ComposedIntent[], warnings: string[]): Promise<ComposedIntent[]> {
+  if (!intents.some(i => i.params.seed_genres?.length)) return intents;
+
+  const availableGenres = await spotifyClient.getAvailableGenres();
+  return intents.map(intent => {
+    if (!intent.params.seed_genres?.length) return intent;
+
+    const seeds: string[] = [];
+    for (const genre of intent.params.seed_genres) {
+      const [match] = mapGenre(genre, availableGenres, 1);
+      if (!match || match.score < MIN_GENRE_SCORE) {
+        warnings.push(`No seed genre close to "${genre}" from ${intent.label}, so it was left out`);
+      } else if (!seeds.includes(match.seed)) {
+        seeds.push(match.seed);
+      }
+    }
+    return { ...intent, params: { ...intent.params, seed_genres: seeds.length > 0 ? seeds : undefined } };
+  });
+}
+
+// Fill in the track count or duration from the subcommand's preset when neither was given
+function withPresetDefaults(options: PlaylistOptions): PlaylistOptions {
+  if (options.trackCount || options.duration) {
+    return options;
   }
 
-  if (options.activity && ACTIVITY_PRESETS[options.activity]) {
-    recParams = { ...recParams, ...ACTIVITY_PRESETS[options.activity] };
+  const primary: Pick<WeightedIntent, 'kind' | 'name'>[] = [];
+  if (options.activity) primary.push({ kind: 'activity', name: options.activity });
+  if (options.mood) primary.push({ kind: 'mood', name: options.mood });
+  if (options.timeOfDay) primary.push({ kind: 'time', name: options.timeOfDay });
+
+  for (const intent of primary) {
+    const defaults = getPresetDefaults(intent);
+    if (defaults.trackCount || defaults.duration) {
+      return { ...options, ...defaults };
+    }
+  }
+  return options;
+}
+
+function getPlaylistType(options: PlaylistOptions): PlaylistType {
+  if (options.cadence) return 'run';
+  if (options.blendWith && options.blendWith.length > 0) return 'blend';
+  if (options.withProfiles && options.withProfiles.length > 0) return 'blend';
+  if (options.birthYear || options.targetYear || options.decade) return 'timemachine';
+  if (options.genre) return 'genre';
+  if (options.listeningMode !== undefined) return 'mode';
+  return 'standard';
+}
+
+// Cut a track list down to the requested duration or track count
+function trimToSize(tracks: SpotifyTrack[], options: PlaylistOptions, defaultCount: number): SpotifyTrack[] {
+  if (options.duration) {
+    const targetDurationMs = options.duration * 60 * 1000;
+    let accumulatedDuration = 0;
+    return tracks.filter(t => {
+      if (accumulatedDuration >= targetDurationMs) return false;
+      accumulatedDuration += t.duration_ms;
+      return true;
+    });
   }
 
-  if (options.timeOfDay && TIME_PRESETS[options.timeOfDay]) {
-    recParams = { ...recParams, ...TIME_PRESETS[options.timeOfDay] };
+  return tracks.slice(0, options.trackCount || defaultCount);
+}
+
+// The energy curve for a playlist: explicit --arc first, then the activity's default arc
+function resolveArc(options: PlaylistOptions): number[] | null {
+  if (options.arc) {
+    return parseArc(options.arc);
   }
+  if (options.activity && ENERGY_ARCS[options.activity]) {
+    return ENERGY_ARCS[options.activity];
+  }
+  return null;
+}
 
-  if (options.vibe) {
-    const vibeParams = parseVibe(options.vibe);
-    recParams = { ...recParams, ...vibeParams };
+// Fetch audio features for any tracks not already in the cache
+async function fetchAudioFeatures(
+  tracks: SpotifyTrack[],
+  cache: Map<string, AudioFeatures>
+): Promise<Map<string, AudioFeatures>> {
+  const missing = [...new Set(tracks.map(t => t.id))].filter(id => !cache.has(id));
+  const features = await spotifyClient.getAudioFeatures(missing);
+  for (const f of features) {
+    cache.set(f.id, f);
   }
+  return cache;
+}
+
+// Standard playlist from mood/activity/time/vibe presets and the user's taste
+async function generateStandardPlaylist(
+  options: PlaylistOptions,
+  tasteProfile: TasteProfile,
+  presetParams: Partial<RecommendationParams>,
+  audioFeatures: Map<string, AudioFeatures>,
+  warnings: string[],
+  explanation: PlanExplanation,
+  years?: { from: number; to: number }
+): Promise<SpotifyTrack[]> {
+  // Build recommendation parameters
+  let recParams: RecommendationParams = {
+    limit: options.trackCount || 25
+  };
+
+  // Apply the blended mood/activity/time/vibe targets
+  recParams = { ...recParams, ...presetParams };
 
   // Handle "based on" option
   if (options.basedOn) {
@@ -421,11 +1018,13 @@ export async function generatePlaylist(options: PlaylistOptions): Promise<{
       const searchResults = await spotifyClient.search(name, ['artist'], 1);
       if (searchResults.artists?.items.length) {
         recParams.seed_artists = [searchResults.artists.items[0].id];
+        explainSeeds(explanation, 'artist', recParams.seed_artists, `based on "${name}"`);
       }
     } else if (type === 'track') {
       const searchResults = await spotifyClient.search(name, ['track'], 1);
       if (searchResults.tracks?.items.length) {
         recParams.seed_tracks = [searchResults.tracks.items[0].id];
+        explainSeeds(explanation, 'track', recParams.seed_tracks, `based on "${name}"`);
       }
     }
   }
@@ -443,20 +1042,42 @@ export async function generatePlaylist(options: PlaylistOptions): Promise<{
     
     recParams.seed_artists = seedArtists;
     recParams.seed_tracks = seedTracks;
+    explainSeeds(explanation, 'artist', seedArtists, 'random pick from your top artists', true);
+    explainSeeds(explanation, 'track', seedTracks, 'random pick from your top tracks', true);
   }
 
+  // Seed from the requested era; Spotify can't filter recommendations by year,
+  // so candidates are also checked against their release date below
+  if (years && !presetParams.seed_tracks?.length) {
+    const eraTracks = await searchTracksInYears(years);
+    const eraSeeds = eraTracks
+      .sort((a, b) => b.popularity - a.popularity)
+      .slice(0, 10)
+      .sort(() => Math.random() - 0.5)
+      .slice(0, 2);
+    if (eraSeeds.length > 0) {
+      recParams.seed_tracks = eraSeeds.map(t => t.id);
+      explainSeeds(explanation, 'track', recParams.seed_tracks, `random pick from popular ${years.from}-${years.to} tracks`, true);
+    }
+    explanation.notes.push(`Leaves out tracks released outside ${years.from}-${years.to}`);
+  }
+  const inYears = (track: SpotifyTrack) => {
+    const year = parseInt(track.album.release_date?.slice(0, 4) || '');
+    return !years || isNaN(year) || (year >= years.from && year <= years.to);
+  };
+
   // For discovery mode, lower popularity and add genre seeds
   if (options.discover) {
     recParams.max_popularity = 50;
+    explain(explanation, ['max_popularity'], '--discover', true);
     
     // Add a genre seed from user's top genres
     if (tasteProfile.topGenres.length > 0) {
       const availableGenres = await spotifyClient.getAvailableGenres();
-      const matchingGenre = tasteProfile.topGenres.find(g => 
-        availableGenres.includes(g.genre)
-      );
-      if (matchingGenre) {
-        recParams.seed_genres = [matchingGenre.genre];
+      const [matchingGenre] = seedGenresFor(tasteProfile.topGenres.map(g => g.genre), availableGenres, 1);
+      if (matchingGenre && !recParams.seed_genres?.length) {
+        recParams.seed_genres = [matchingGenre];
+        explainSeeds(explanation, 'genre', recParams.seed_genres, 'your top genre (--discover)');
         // Keep only one artist and one track seed for discovery
         recParams.seed_artists = recParams.seed_artists?.slice(0, 1);
         recParams.seed_tracks = recParams.seed_tracks?.slice(0, 1);
@@ -464,6 +1085,14 @@ export async function generatePlaylist(options: PlaylistOptions): Promise<{
     }
   }
 
+  // Preset genres share the 5-seed limit, so make room by dropping taste seeds
+  const genreSeedCount = recParams.seed_genres?.length || 0;
+  if (genreSeedCount > 0) {
+    const room = Math.max(0, 5 - genreSeedCount);
+    recParams.seed_artists = recParams.seed_artists?.slice(0, Math.ceil(room / 2));
+    recParams.seed_tracks = recParams.seed_tracks?.slice(0, room - (recParams.seed_artists?.length || 0));
+  }
+
   // Blend with user's taste profile for personalization
   // If no explicit targets are set, use user's baseline
   if (recParams.target_energy === undefined) {
@@ -475,6 +1104,7 @@ export async function generatePlaylist(options: PlaylistOptions): Promise<{
   if (recParams.target_danceability === undefined) {
     recParams.target_danceability = tasteProfile.avgFeatures.danceability;
   }
+  explain(explanation, ['target_energy', 'target_valence', 'target_danceability'], 'your taste profile average');
 
   // If duration is specified instead of track count, estimate tracks
   if (options.duration && !options.trackCount) {
@@ -482,125 +1112,242 @@ export async function generatePlaylist(options: PlaylistOptions): Promise<{
     recParams.limit = Math.ceil(options.duration / 3.5);
   }
 
-  // Get recommendations
-  let tracks = await spotifyClient.getRecommendations(recParams);
+  const wantedCount = recParams.limit || 25;
+  const targetDurationMs = options.duration ? options.duration * 60 * 1000 : 0;
+  const isEnough = (tracks: SpotifyTrack[]) => targetDurationMs
+    ? tracks.reduce((sum, t) => sum + t.duration_ms, 0) >= targetDurationMs
+    : tracks.length >= wantedCount;
+
+  // Spotify only treats target_* values as hints, so over-fetch and re-rank locally
+  const ranking = buildRankingOptions(options, recParams, tasteProfile);
+  const maxRounds = options.strict ? 6 : 3;
+  const candidates: SpotifyTrack[] = [];
+  const seenIds = new Set<string>();
+  let ranked: { accepted: RankedTrack[]; rejected: RankedTrack[] } = { accepted: [], rejected: [] };
+
+  for (let round = 0; round < maxRounds; round++) {
+    // Shuffle seeds for variety
+    if (round > 0) {
+      recParams.seed_artists = recParams.seed_artists?.sort(() => Math.random() - 0.5);
+      recParams.seed_tracks = recParams.seed_tracks?.sort(() => Math.random() - 0.5);
+    }
 
-  // If we need more tracks (for duration), keep fetching
-  if (options.duration) {
-    const targetDurationMs = options.duration * 60 * 1000;
-    let currentDuration = tracks.reduce((sum, t) => sum + t.duration_ms, 0);
-    
-    while (currentDuration < targetDurationMs && tracks.length < 100) {
-      // Shuffle seeds for variety
-      if (recParams.seed_artists) {
-        recParams.seed_artists = recParams.seed_artists.sort(() => Math.random() - 0.5);
+    const request = { ...recParams, limit: Math.min(100, wantedCount * 3) };
+    if (round === 0) {
+      explain(explanation, ['limit'], `${wantedCount} tracks × 3, re-ranked locally`);
+      recordRequest(explanation, request);
+    }
+
+    const moreTracks = await spotifyClient.getRecommendations(request);
+
+    // Filter out duplicates
+    const newTracks = moreTracks.filter(t => !seenIds.has(t.id));
+    if (newTracks.length === 0) break;
+
+    newTracks.forEach(t => seenIds.add(t.id));
+    candidates.push(...newTracks.filter(inYears));
+    await fetchAudioFeatures(newTracks, audioFeatures);
+
+    ranked = rankCandidates(candidates, audioFeatures, ranking);
+    if (isEnough(ranked.accepted.map(r => r.track))) break;
+  }
+
+  let tracks = ranked.accepted.map(r => r.track);
+
+  if (years && !isEnough(tracks) && candidates.length < seenIds.size) {
+    warnings.push(`${seenIds.size - candidates.length} recommendations were left out for falling outside ${years.from}-${years.to}`);
+  }
+
+  if (!isEnough(tracks)) {
+    if (options.strict) {
+      warnings.push(`Strict mode: only ${tracks.length} tracks met the requested bounds`);
+    } else {
+      // Pad with the closest tracks that missed the tolerance
+      let padded = 0;
+      for (const { track } of ranked.rejected) {
+        if (isEnough(tracks)) break;
+        tracks.push(track);
+        padded++;
       }
-      if (recParams.seed_tracks) {
-        recParams.seed_tracks = recParams.seed_tracks.sort(() => Math.random() - 0.5);
+      if (padded > 0) {
+        warnings.push(`${padded} tracks fall outside the target tolerance (use --strict to leave them out)`);
       }
-      
-      const moreTracks = await spotifyClient.getRecommendations({
-        ...recParams,
-        limit: 20
-      });
-      
-      // Filter out duplicates
-      const existingIds = new Set(tracks.map(t => t.id));
-      const newTracks = moreTracks.filter(t => !existingIds.has(t.id));
-      
-      if (newTracks.length === 0) break;
-      
-      tracks.push(...newTracks);
-      currentDuration = tracks.reduce((sum, t) => sum + t.duration_ms, 0);
     }
-    
-    // Trim to target duration
+  }
+
+  // Trim to target duration or track count
+  if (targetDurationMs) {
     let accumulatedDuration = 0;
     tracks = tracks.filter(t => {
       if (accumulatedDuration >= targetDurationMs) return false;
       accumulatedDuration += t.duration_ms;
       return true;
     });
+  } else {
+    tracks = tracks.slice(0, wantedCount);
   }
 
-  // Generate playlist name if not provided
-  let playlistName = options.name;
-  if (!playlistName) {
-    const parts: string[] = [];
-    if (options.mood) parts.push(capitalize(options.mood));
-    if (options.activity) parts.push(capitalize(options.activity));
-    if (options.timeOfDay) parts.push(capitalize(options.timeOfDay));
-    if (options.vibe) parts.push(`"${options.vibe}"`);
-    if (options.discover) parts.push('Discovery');
-    if (options.basedOn) {
-      const [, ...name] = options.basedOn.split(':');
-      parts.push(`Like ${name.join(':')}`);
+  return tracks;
+}
+
+async function searchTracksInYears(years: { from: number; to: number }): Promise<SpotifyTrack[]> {
+  const range = years.from === years.to ? String(years.from) : `${years.from}-${years.to}`;
+  const results = await spotifyClient.search(`year:${range}`, ['track'], 50);
+  return results.tracks?.items || [];
+}
+
+function buildRankingOptions(
+  options: PlaylistOptions,
+  recParams: RecommendationParams,
+  tasteProfile: TasteProfile
+): RankingOptions {
+  return {
+    targets: targetsFromParams(recParams),
+    weights: options.featureWeights ? parseFeatureWeights(options.featureWeights) : DEFAULT_FEATURE_WEIGHTS,
+    maxDeviation: options.maxDeviation ?? (options.strict ? STRICT_MAX_DEVIATION : DEFAULT_MAX_DEVIATION),
+    minPopularity: recParams.min_popularity,
+    maxPopularity: recParams.max_popularity,
+    tasteRanges: tasteProfile.featureRanges,
+    bounds: tasteBounds(options, tasteProfile)
+  };
+}
+
+// The --within percentile bounds from the user's own distributions, if any
+function tasteBounds(
+  options: PlaylistOptions,
+  tasteProfile: TasteProfile
+): Partial<Record<ScoredFeature, { min: number; max: number }>> | undefined {
+  if (!options.within) return undefined;
+  return percentileBounds(tasteProfile, parsePercentileRange(options.within)) || undefined;
+}
+
+function isWithinBounds(features: AudioFeatures, bounds: Partial<Record<ScoredFeature, { min: number; max: number }>>): boolean {
+  return Object.entries(bounds).every(([feature, bound]) =>
+    features[feature as ScoredFeature] >= bound.min && features[feature as ScoredFeature] <= bound.max
+  );
+}
+
+// Where to publish a plan: a new playlist by default, or an existing one
+export interface PublishTarget {
+  into?: string;     // Playlist ID, URL or name to update in place
+  append?: boolean;  // Add to the existing tracks instead of replacing them
+}
+
+// Publish a planned playlist with exactly the planned tracks
+export async function publishPlaylist(
+  plan: PlaylistPlan,
+  target: PublishTarget = {}
+): Promise<{ playlistId: string; playlistUrl: string; playlistName: string; updated: boolean }> {
+  const trackUris = plan.tracks.map(t => t.uri);
+
+  if (target.into) {
+    const playlist = await resolvePlaylist(target.into);
+
+    if (target.append) {
+      await spotifyClient.addTracksToPlaylist(playlist.id, trackUris);
+    } else {
+      await spotifyClient.replacePlaylistTracks(playlist.id, trackUris);
     }
-    
-    playlistName = parts.length > 0 
-      ? `${parts.join(' ')} Mix` 
-      : 'Generated Playlist';
+    await spotifyClient.updatePlaylistDetails(playlist.id, { description: plan.description });
+
+    recordGeneratedPlaylist(playlist.id, playlist.name, plan.tracks.map(t => t.id));
+
+    return { playlistId: playlist.id, playlistUrl: playlist.external_urls.spotify, playlistName: playlist.name, updated: true };
   }
 
-  // Create playlist on Spotify
   const user = await spotifyClient.getMe();
-  const description = options.description || generateDescription(options, tracks.length);
-  
   const playlist = await spotifyClient.createPlaylist(
     user.id,
-    playlistName,
-    description,
-    options.public ?? false
+    plan.playlistName,
+    plan.description,
+    plan.public
   );
 
   // Add tracks to playlist
-  await spotifyClient.addTracksToPlaylist(
-    playlist.id,
-    tracks.map(t => t.uri)
-  );
+  await spotifyClient.addTracksToPlaylist(playlist.id, trackUris);
 
-  return {
-    tracks,
-    playlistUrl: playlist.external_urls.spotify,
-    playlistName
-  };
+  recordGeneratedPlaylist(playlist.id, plan.playlistName, plan.tracks.map(t => t.id));
+
+  return { playlistId: playlist.id, playlistUrl: playlist.external_urls.spotify, playlistName: playlist.name, updated: false };
 }
 
-// Helper to finalize and save the playlist
-async function finalizePlaylist(
-  options: PlaylistOptions, 
-  tracks: SpotifyTrack[], 
-  type: 'blend' | 'timemachine' | 'genre' | 'standard'
-): Promise<{
+// Plan and publish in one step
+export async function generatePlaylist(options: PlaylistOptions): Promise<{
   tracks: SpotifyTrack[];
   playlistUrl?: string;
   playlistName: string;
 }> {
+  const plan = await planPlaylist(options);
+  const { playlistUrl } = await publishPlaylist(plan);
+
+  return {
+    tracks: plan.tracks,
+    playlistUrl,
+    playlistName: plan.playlistName
+  };
+}
+
+// Helper to name and describe a generated playlist
+function buildPlan(
+  options: PlaylistOptions, 
+  tracks: SpotifyTrack[], 
+  type: PlaylistType,
+  groupNames: string[] = [],
+  mode?: ListeningMode
+): PlaylistPlan {
+  const blendNames = [...(options.blendWith || []), ...groupNames];
+
   // Generate playlist name if not provided
   let playlistName = options.name;
   if (!playlistName) {
     switch (type) {
       case 'blend':
-        const artists = options.blendWith || [];
-        playlistName = artists.length > 1 
-          ? `Blend: You + ${artists.slice(0, 2).join(' & ')}` 
-          : `Blend: You + ${artists[0]}`;
+        playlistName = blendNames.length > 1 
+          ? `Blend: You + ${blendNames.slice(0, 2).join(' & ')}` 
+          : `Blend: You + ${blendNames[0]}`;
         break;
-      case 'timemachine':
-        if (options.birthYear) {
-          const hsYears = `${options.birthYear + 14}-${options.birthYear + 18}`;
-          playlistName = `High School Hits (${hsYears})`;
-        } else {
+      case 'timemachine': {
+        const years = resolveTimeMachineYears(options);
+        if (options.targetYear) {
           playlistName = `Time Machine: ${options.targetYear}`;
+        } else if (options.decade) {
+          playlistName = `Time Machine: The ${years.from}s`;
+        } else if (options.ageRange) {
+          playlistName = `Time Machine: Ages ${years.ages!.from}-${years.ages!.to} (${formatYears(years.from, years.to)})`;
+        } else {
+          playlistName = `High School Hits (${formatYears(years.from, years.to)})`;
         }
         break;
+      }
+      case 'run':
+        playlistName = options.cadenceEnd !== undefined
+          ? `Running ${options.cadence}→${options.cadenceEnd} SPM`
+          : `Running ${options.cadence} SPM`;
+        break;
+      case 'mode':
+        playlistName = mode ? `${mode.name} Mode` : 'Listening Mode';
+        break;
       case 'genre':
         playlistName = options.deepCuts !== false
           ? `${capitalize(options.genre || 'Genre')} Deep Cuts`
           : `${capitalize(options.genre || 'Genre')} Mix`;
         break;
-      default:
-        playlistName = 'Generated Playlist';
+      default: {
+        const parts: string[] = [];
+        if (options.mood) parts.push(capitalize(options.mood));
+        if (options.activity) parts.push(capitalize(options.activity));
+        if (options.timeOfDay) parts.push(capitalize(options.timeOfDay));
+        if (options.vibe) parts.push(`"${options.vibe}"`);
+        if (options.discover) parts.push('Discovery');
+        if (options.basedOn) {
+          const [, ...name] = options.basedOn.split(':');
+          parts.push(`Like ${name.join(':')}`);
+        }
+
+        playlistName = parts.length > 0 
+          ? `${parts.join(' ')} Mix` 
+          : 'Generated Playlist';
+      }
     }
   }
 
@@ -609,42 +1356,44 @@ async function finalizePlaylist(
   if (!description) {
     switch (type) {
       case 'blend':
-        description = `A blend of your taste with ${options.blendWith?.join(', ')} | Generated by spotify-gen 🎵`;
+        description = `A blend of your taste with ${blendNames.join(', ')} | Generated by spotify-gen 🎵`;
         break;
-      case 'timemachine':
-        if (options.birthYear) {
-          description = `Songs from your high school years | Generated by spotify-gen 🎵`;
+      case 'timemachine': {
+        const years = resolveTimeMachineYears(options);
+        if (options.targetYear) {
+          description = `Your kind of songs from ${options.targetYear} | Generated by spotify-gen 🎵`;
+        } else if (options.decade) {
+          description = `Your kind of songs from the ${years.from}s | Generated by spotify-gen 🎵`;
+        } else if (options.ageRange) {
+          description = `Your kind of songs from when you were ${years.ages!.from}-${years.ages!.to} | Generated by spotify-gen 🎵`;
         } else {
-          description = `Hits from ${options.targetYear} | Generated by spotify-gen 🎵`;
+          description = `Your kind of songs from your high school years | Generated by spotify-gen 🎵`;
         }
         break;
+      }
+      case 'run': {
+        const cadence = options.cadenceEnd !== undefined
+          ? `${options.cadence}→${options.cadenceEnd}`
+          : `${options.cadence}`;
+        description = `Running at ${cadence} BPM (±${options.cadenceTolerance ?? 4}) | Generated by spotify-gen 🎵`;
+        break;
+      }
+      case 'mode':
+        description = `More from your "${mode?.name}" listening mode | Generated by spotify-gen 🎵`;
+        break;
       case 'genre':
         description = `${options.deepCuts !== false ? 'Deep cuts and hidden gems' : 'Great tracks'} in ${options.genre} | Generated by spotify-gen 🎵`;
         break;
       default:
-        description = `Generated by spotify-gen 🎵 | ${tracks.length} tracks`;
+        description = generateDescription(options, tracks.length);
     }
   }
 
-  // Create playlist on Spotify
-  const user = await spotifyClient.getMe();
-  const playlist = await spotifyClient.createPlaylist(
-    user.id,
-    playlistName,
-    description,
-    options.public ?? false
-  );
-
-  // Add tracks to playlist
-  await spotifyClient.addTracksToPlaylist(
-    playlist.id,
-    tracks.map(t => t.uri)
-  );
-
   return {
     tracks,
-    playlistUrl: playlist.external_urls.spotify,
-    playlistName
+    playlistName,
+    description,
+    public: options.public ?? false
   };
 }
 
@@ -665,7 +1414,8 @@ function generateDescription(options: PlaylistOptions, trackCount: number): stri
   return parts.join(' | ');
 }
 
-export function formatTrackList(tracks: SpotifyTrack[]): string {
+// Pass audio features to also show each track's key (with Camelot code) and BPM
+export function formatTrackList(tracks: SpotifyTrack[], audioFeatures?: Map<string, AudioFeatures>): string {
   const lines: string[] = [];
   let totalDuration = 0;
 
@@ -676,9 +1426,15 @@ export function formatTrackList(tracks: SpotifyTrack[]): string {
     const minutes = Math.floor(duration / 60);
     const seconds = duration % 60;
     
-    lines.push(
-      `${chalk.dim(String(i + 1).padStart(2, ' '))}. ${chalk.white(track.name)} ${chalk.dim('-')} ${chalk.cyan(artists)} ${chalk.dim(`[${minutes}:${String(seconds).padStart(2, '0')}]`)}`
-    );
+    let line = `${chalk.dim(String(i + 1).padStart(2, ' '))}. ${chalk.white(track.name)} ${chalk.dim('-')} ${chalk.cyan(artists)} ${chalk.dim(`[${minutes}:${String(seconds).padStart(2, '0')}]`)}`;
+
+    const features = audioFeatures?.get(track.id);
+    if (features) {
+      const camelot = formatCamelot(toCamelot(features.key, features.mode));
+      line += ` ${chalk.magenta(`${formatKey(features.key, features.mode)} ${camelot}`)} ${chalk.yellow(`${Math.round(features.tempo)} BPM`)}`;
+    }
+
+    lines.push(line);
     
     totalDuration += track.duration_ms;
   }
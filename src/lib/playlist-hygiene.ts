@@ -0,0 +1,166 @@
+import { AudioFeatures, PlaylistItem, SpotifyTrack } from '../types/spotify';
+import { normalizeText, normalizeTitle, similarity } from './playlist-import';
+
+export type RemovalReason = 'duplicate' | 'same-isrc' | 'similar' | 'unavailable';
+
+export interface CleanupRemoval {
+  position: number;       // 0-based, in the playlist as it was read
+  track: SpotifyTrack;
+  reason: RemovalReason;
+  keptPosition?: number;  // The copy that stays, for duplicates
+}
+
+export interface CleanupOptions {
+  similar?: boolean;      // Also catch the same title and artist on different releases
+  unavailable?: boolean;  // Remove tracks that can't be played in the user's market
+}
+
+// First artists at least this alike, and durations this close, for the same title to count as one song
+const SIMILAR_ARTIST = 0.9;
+const SIMILAR_DURATION_MS = 3000;
+
+export const SORT_KEYS = [
+  'danceability', 'energy', 'valence', 'acousticness', 'instrumentalness',
+  'speechiness', 'liveness', 'loudness', 'tempo', 'popularity', 'release-date'
+] as const;
+
+export type SortKey = typeof SORT_KEYS[number];
+
+export function parseSortKey(value: string): SortKey {
+  const key = value.toLowerCase().replace(/[\s_]+/g, '-');
+  if (!(SORT_KEYS as readonly string[]).includes(key)) {
+    throw new Error(`Can't sort by "${value}". Use one of: ${SORT_KEYS.join(', ')}`);
+  }
+  return key as SortKey;
+}
+
+// The URI the playlist holds for a track, which differs from track.uri when Spotify
+// relinked it to a version playable in the user's market
+export function playlistUri(track: SpotifyTrack): string {
+  return track.linked_from?.uri || track.uri;
+}
+
+// Tracks to take out of a playlist: repeats of the same track, other releases of the
+// same recording (ISRC) or, optionally, of the same title and artist, and tracks that
+// can't be played in the user's market. The first playable copy of a song is the one kept.
+export function findRemovals(items: PlaylistItem[], options: CleanupOptions = {}): CleanupRemoval[] {
+  const { similar = true, unavailable = true } = options;
+
+  const candidates = items
+    .map((item, position) => ({ position, track: item.track }))
+    .filter((c, i): c is { position: number; track: SpotifyTrack } => !items[i].is_local && c.track !== null);
+
+  // Playable copies get the first chance to be kept; sort is stable, so playlist order wins otherwise
+  const byPreference = [...candidates].sort(
+    (a, b) => Number(a.track.is_playable === false) - Number(b.track.is_playable === false)
+  );
+
+  const kept: { position: number; track: SpotifyTrack }[] = [];
+  const removals: CleanupRemoval[] = [];
+
+  for (const candidate of byPreference) {
+    const match = findDuplicate(candidate.track, kept, similar);
+    if (match) {
+      removals.push({ ...candidate, reason: match.reason, keptPosition: match.position });
+    } else if (unavailable && candidate.track.is_playable === false) {
+      removals.push({ ...candidate, reason: 'unavailable' });
+    } else {
+      kept.push(candidate);
+    }
+  }
+
+  return removals.sort((a, b) => a.position - b.position);
+}
+
+function findDuplicate(
+  track: SpotifyTrack,
+  kept: { position: number; track: SpotifyTrack }[],
+  similar: boolean
+): { position: number; reason: RemovalReason } | null {
+  const exact = kept.find(k => playlistUri(k.track) === playlistUri(track));
+  if (exact) return { position: exact.position, reason: 'duplicate' };
+
+  const isrc = track.external_ids?.isrc?.toUpperCase();
+  if (isrc) {
+    const sameRecording = kept.find(k => k.track.external_ids?.isrc?.toUpperCase() === isrc);
+    if (sameRecording) return { position: sameRecording.position, reason: 'same-isrc' };
+  }
+
+  if (similar) {
+    const alike = kept.find(k => isSameSong(k.track, track));
+    if (alike) return { position: alike.position, reason: 'similar' };
+  }
+
+  return null;
+}
+
+// Same title once remaster, edit and feature tags are dropped (live, acoustic, demo and remix
+// tags stay, and so do numbers), the same first artist and practically the same length
+function isSameSong(a: SpotifyTrack, b: SpotifyTrack): boolean {
+  if (a.artists.length === 0 || b.artists.length === 0) return false;
+  if (Math.abs(a.duration_ms - b.duration_ms) > SIMILAR_DURATION_MS) return false;
+  if (normalizeTitle(a.name) !== normalizeTitle(b.name)) return false;
+  return similarity(normalizeText(a.artists[0].name), normalizeText(b.artists[0].name)) >= SIMILAR_ARTIST;
+}
+
+export function describeRemoval(removal: CleanupRemoval): string {
+  switch (removal.reason) {
+    case 'duplicate':
+      return `duplicate of #${removal.keptPosition! + 1}`;
+    case 'same-isrc':
+      return `same recording as #${removal.keptPosition! + 1} (ISRC)`;
+    case 'similar':
+      return `same title and artist as #${removal.keptPosition! + 1}`;
+    case 'unavailable':
+      return 'unavailable in your market';
+  }
+}
+
+export function sortValue(
+  track: SpotifyTrack | null,
+  key: SortKey,
+  audioFeatures: Map<string, AudioFeatures>
+): number | string | undefined {
+  if (!track) return undefined;
+  if (key === 'popularity') return track.popularity;
+  if (key === 'release-date') return track.album.release_date || undefined;
+  return audioFeatures.get(track.id)?.[key];
+}
+
+// Playlist order by a feature, popularity or release date. Items without a value
+// (local files, missing features) go last either way.
+export function sortItems<T extends { track: SpotifyTrack | null }>(
+  items: T[],
+  key: SortKey,
+  audioFeatures: Map<string, AudioFeatures>,
+  descending = false
+): T[] {
+  const direction = descending ? -1 : 1;
+  return items
+    .map(item => ({ item, value: sortValue(item.track, key, audioFeatures) }))
+    .sort((a, b) => {
+      if (a.value === undefined || b.value === undefined) {
+        return Number(a.value === undefined) - Number(b.value === undefined);
+      }
+      if (a.value === b.value) return 0;
+      return (a.value < b.value ? -1 : 1) * direction;
+    })
+    .map(entry => entry.item);
+}
+
+// Single-item moves that turn `current` into `target`, in the order they have to be
+// made (each one's positions account for the moves before it)
+export function reorderMoves<T>(current: T[], target: T[]): { from: number; to: number }[] {
+  const order = [...current];
+  const moves: { from: number; to: number }[] = [];
+
+  for (let to = 0; to < target.length; to++) {
+    const from = order.indexOf(target[to], to);
+    if (from === to || from === -1) continue;
+    moves.push({ from, to });
+    order.splice(from, 1);
+    order.splice(to, 0, target[to]);
+  }
+
+  return moves;
+}
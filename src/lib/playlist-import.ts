@@ -0,0 +1,419 @@
+import fs from 'fs';
+import path from 'path';
+import { spotifyClient } from './spotify-client';
+import { SpotifyTrack } from '../types/spotify';
+
+// One song from an imported file, with whatever the file said about it
+export interface ImportEntry {
+  line: number;
+  title: string;
+  artists: string[];
+  album?: string;
+  durationMs?: number;
+  isrc?: string;
+  uri?: string;  // spotify:track:... when the file already has one
+  byline?: { title: string; artists: string[] };  // "Title by Artist" reading of a title with " by " in it
+}
+
+export interface ImportMatch {
+  entry: ImportEntry;
+  track?: SpotifyTrack;
+  score: number;  // 0-1
+  by: 'uri' | 'isrc' | 'search' | 'none';
+  closest?: SpotifyTrack;  // Best search result of an entry that wasn't matched
+}
+
+// Matches at or above this are taken as they are; between this and MIN_MATCH_SCORE
+// they're added but listed for review; below MIN_MATCH_SCORE they're left out
+export const CONFIDENT_MATCH_SCORE = 0.85;
+export const MIN_MATCH_SCORE = 0.6;
+
+// How much the title, artist and duration count towards a match
+const TITLE_WEIGHT = 0.55;
+const ARTIST_WEIGHT = 0.35;
+const DURATION_WEIGHT = 0.1;
+
+// Durations this close count as equal; the score falls to 0 at DURATION_LIMIT
+const DURATION_TOLERANCE_MS = 3000;
+const DURATION_LIMIT_MS = 30000;
+
+const SEARCH_RESULTS = 5;
+
+// CSV header names (lowercased, without spaces or underscores) for each field
+const CSV_COLUMNS: Record<'title' | 'artists' | 'album' | 'duration' | 'isrc' | 'uri', string[]> = {
+  title: ['title', 'name', 'track', 'trackname', 'song', 'songname'],
+  artists: ['artists', 'artist', 'artistname', 'artistnames', 'artistname(s)', 'creator'],
+  album: ['album', 'albumname'],
+  duration: ['durationms', 'duration', 'duration(ms)', 'length', 'time'],
+  isrc: ['isrc'],
+  uri: ['uri', 'spotifyuri', 'trackuri', 'spotifyid']
+};
+
+// Read entries from a CSV, M3U or JSON export, or a plain text file with one "Artist - Title" per line
+export function parseImportFile(file: string): ImportEntry[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf8').replace(/^\uFEFF/, '');
+  } catch (err: any) {
+    throw new Error(`Could not read ${file}: ${err.message}`);
+  }
+
+  switch (path.extname(file).toLowerCase()) {
+    case '.csv':
+      return parseCsv(content);
+    case '.m3u':
+    case '.m3u8':
+      return parseM3u(content);
+    case '.json':
+      return parseJson(content, file);
+    default:
+      return parseText(content);
+  }
+}
+
+function parseCsv(content: string): ImportEntry[] {
+  const rows = parseCsvRows(content);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(h => h.toLowerCase().replace(/[\s_]/g, ''));
+  const column = (field: keyof typeof CSV_COLUMNS) => header.findIndex(h => CSV_COLUMNS[field].includes(h));
+  const columns = {
+    title: column('title'),
+    artists: column('artists'),
+    album: column('album'),
+    duration: column('duration'),
+    isrc: column('isrc'),
+    uri: column('uri')
+  };
+  if (columns.title === -1 && columns.uri === -1) {
+    throw new Error('The CSV needs a header row with a title (or name/track) column');
+  }
+
+  const entries: ImportEntry[] = [];
+  rows.slice(1).forEach((row, i) => {
+    const value = (index: number) => index === -1 ? undefined : row[index]?.trim() || undefined;
+    const title = value(columns.title);
+    const uri = spotifyTrackUri(value(columns.uri));
+    if (!title && !uri) return;
+
+    entries.push({
+      line: i + 2,
+      title: title || '',
+      artists: splitArtists(value(columns.artists) || ''),
+      album: value(columns.album),
+      durationMs: parseDuration(value(columns.duration), header[columns.duration]),
+      isrc: value(columns.isrc)?.toUpperCase(),
+      uri
+    });
+  });
+  return entries;
+}
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and newlines
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(f => f.trim())) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(f => f.trim())) rows.push(row);
+  return rows;
+}
+
+// "#EXTINF:<seconds>,<artist> - <title>" before each location; files without
+// EXTINF lines fall back to the location's file name
+function parseM3u(content: string): ImportEntry[] {
+  const entries: ImportEntry[] = [];
+  let info: (ArtistTitle & { durationMs?: number }) | undefined;
+  let album: string | undefined;
+
+  content.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    const extinf = line.match(/^#EXTINF:\s*(-?\d+(?:\.\d+)?)[^,]*,(.*)$/i);
+    if (extinf) {
+      const seconds = parseFloat(extinf[1]);
+      info = { ...splitArtistTitle(extinf[2]), durationMs: seconds > 0 ? Math.round(seconds * 1000) : undefined };
+      return;
+    }
+    const extalb = line.match(/^#EXTALB:(.*)$/i);
+    if (extalb) {
+      album = extalb[1].trim() || undefined;
+      return;
+    }
+    if (line.startsWith('#')) return;
+
+    const uri = spotifyTrackUri(line);
+    const fromName = splitArtistTitle(fileTitle(line));
+    const { artists, title, byline } = info || fromName;
+    entries.push({ line: i + 1, title, artists, byline, album, durationMs: info?.durationMs, uri });
+    info = undefined;
+    album = undefined;
+  });
+  return entries;
+}
+
+// "Music/Artist%20-%20Title.mp3" -> "Artist - Title"
+function fileTitle(location: string): string {
+  const name = path.basename(location.replace(/\\/g, '/'), path.extname(location));
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+// A JSON export from `spotify-gen export`, or any array of { title/name, artists/artist, ... }
+function parseJson(content: string, file: string): ImportEntry[] {
+  let raw: any;
+  try {
+    raw = JSON.parse(content);
+  } catch (err: any) {
+    throw new Error(`Could not parse ${file}: ${err.message}`);
+  }
+
+  const tracks = Array.isArray(raw) ? raw : raw?.tracks;
+  if (!Array.isArray(tracks)) {
+    throw new Error(`${file} should hold an array of tracks, or an object with a "tracks" array`);
+  }
+
+  return tracks
+    .map((track: any, i: number): ImportEntry => ({
+      line: i + 1,
+      title: String(track?.title ?? track?.name ?? ''),
+      artists: Array.isArray(track?.artists)
+        ? track.artists.map((a: any) => String(a?.name ?? a))
+        : splitArtists(String(track?.artist ?? '')),
+      album: typeof track?.album === 'string' ? track.album : track?.album?.name,
+      durationMs: typeof track?.durationMs === 'number' ? track.durationMs : track?.duration_ms,
+      isrc: track?.isrc ?? track?.external_ids?.isrc,
+      uri: spotifyTrackUri(track?.uri)
+    }))
+    .filter(entry => entry.title || entry.uri);
+}
+
+// "Artist - Title", "Title by Artist" or a Spotify track link per line; "#" starts a comment
+function parseText(content: string): ImportEntry[] {
+  const entries: ImportEntry[] = [];
+  content.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim().replace(/^\d+[.)]\s+/, '');
+    if (!line || line.startsWith('#')) return;
+
+    const uri = spotifyTrackUri(line);
+    entries.push(uri ? { line: i + 1, title: '', artists: [], uri } : { line: i + 1, ...splitArtistTitle(line) });
+  });
+  return entries;
+}
+
+type ArtistTitle = Pick<ImportEntry, 'artists' | 'title' | 'byline'>;
+
+function splitArtistTitle(text: string): ArtistTitle {
+  const dash = text.match(/^(.+?)\s+[-–—]\s+(.+)$/);
+  if (dash) return { artists: splitArtists(dash[1]), title: dash[2].trim() };
+
+  // "Stand by Me" is a title too, so the whole line is tried first and this split only after
+  const by = text.match(/^(.+)\s+by\s+(.+)$/i);
+  const byline = by ? { artists: splitArtists(by[2]), title: by[1].trim() } : undefined;
+
+  return { artists: [], title: text.trim(), byline };
+}
+
+// "A, B feat. C" -> ["A", "B", "C"]. "&" stays, since it's part of many band names.
+function splitArtists(text: string): string[] {
+  return text
+    .split(/\s*[,;]\s*|\s+(?:feat\.?|ft\.?|featuring|with)\s+/i)
+    .map(a => a.trim())
+    .filter(Boolean);
+}
+
+function spotifyTrackUri(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const match = value.match(/spotify:track:([A-Za-z0-9]{22})|open\.spotify\.com\/(?:[\w-]+\/)?track\/([A-Za-z0-9]{22})/);
+  return match ? `spotify:track:${match[1] || match[2]}` : undefined;
+}
+
+// Milliseconds, seconds, or m:ss / h:mm:ss
+function parseDuration(value: string | undefined, header?: string): number | undefined {
+  if (!value) return undefined;
+  if (value.includes(':')) {
+    const seconds = value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+    return isNaN(seconds) ? undefined : seconds * 1000;
+  }
+  const number = Number(value);
+  if (isNaN(number) || number <= 0) return undefined;
+  // Columns not named in milliseconds hold seconds when the value is short enough
+  return header?.includes('ms') || number > 10000 ? number : number * 1000;
+}
+
+// Tags that only say how a recording was mastered or cut...
+const RELEASE_TAG = /\b(?:remaster(?:ed)?|mono|stereo|edit|deluxe|(?:album|single|radio|original) (?:version|mix))\b/i;
+// ...unless they also name a different performance or arrangement
+const VERSION_TAG = /\b(?:live|acoustic|demo|remix|unplugged|instrumental|session|rehearsal|reprise|karaoke|cover|extended|club|dub)\b/i;
+
+// Comparable form of a title: no featured artists, remaster or edit tags, or punctuation.
+// Live, acoustic, demo and remix versions keep their tag, so they don't pass for the original.
+export function normalizeTitle(title: string): string {
+  return normalizeText(
+    title
+      .replace(/[([]\s*(?:feat|ft|featuring|with)\b[^)\]]*[)\]]/gi, ' ')
+      .replace(/\s+(?:feat|ft|featuring)\.?\s+.*$/i, ' ')
+      .replace(/[([]([^)\]]*)[)\]]/g, (tag, inner: string) => isReleaseTag(inner) ? ' ' : tag)
+      .replace(/\s+-\s+([^-]*)$/, (tag, inner: string) => isReleaseTag(inner) ? ' ' : tag)
+  );
+}
+
+function isReleaseTag(text: string): boolean {
+  return RELEASE_TAG.test(text) && !VERSION_TAG.test(text);
+}
+
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/^the\s+/, '')
+    .trim();
+}
+
+// Dice coefficient of character bigrams: 1 for the same text, near 0 for unrelated text
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let shared = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      shared++;
+    }
+  }
+  return (2 * shared) / (a.length + b.length - 2);
+}
+
+// How likely a track is the entry (0-1), from title, artist and duration. Fields the entry
+// doesn't have are left out rather than counted against the track.
+export function matchScore(entry: ImportEntry, track: SpotifyTrack): number {
+  let score = TITLE_WEIGHT * similarity(normalizeTitle(entry.title), normalizeTitle(track.name));
+  let total = TITLE_WEIGHT;
+
+  if (entry.artists.length > 0) {
+    const trackArtists = track.artists.map(a => normalizeText(a.name));
+    // The first credited artist has to match; extra credits differ a lot between services
+    const artist = normalizeText(entry.artists[0]);
+    score += ARTIST_WEIGHT * Math.max(0, ...trackArtists.map(a => similarity(artist, a)));
+    total += ARTIST_WEIGHT;
+  }
+
+  if (entry.durationMs) {
+    const difference = Math.abs(entry.durationMs - track.duration_ms);
+    const fit = difference <= DURATION_TOLERANCE_MS
+      ? 1
+      : Math.max(0, 1 - (difference - DURATION_TOLERANCE_MS) / (DURATION_LIMIT_MS - DURATION_TOLERANCE_MS));
+    score += DURATION_WEIGHT * fit;
+    total += DURATION_WEIGHT;
+  }
+
+  return score / total;
+}
+
+// Find the Spotify track for each entry: by URI, then ISRC, then the best-scoring search result
+export async function matchEntries(
+  entries: ImportEntry[],
+  onProgress?: (done: number) => void
+): Promise<ImportMatch[]> {
+  const byUri = new Map(
+    (await spotifyClient.getTracks([...new Set(entries.filter(e => e.uri).map(e => e.uri!.split(':')[2]))]))
+      .map(t => [t.uri, t])
+  );
+
+  const matches: ImportMatch[] = [];
+  for (const entry of entries) {
+    matches.push(await matchEntry(entry, byUri));
+    onProgress?.(matches.length);
+  }
+  return matches;
+}
+
+async function matchEntry(entry: ImportEntry, byUri: Map<string, SpotifyTrack>): Promise<ImportMatch> {
+  const known = entry.uri ? byUri.get(entry.uri) : undefined;
+  if (known) return { entry, track: known, score: 1, by: 'uri' };
+
+  if (entry.isrc) {
+    const results = await spotifyClient.search(`isrc:${entry.isrc}`, ['track'], 1);
+    const track = results.tracks?.items[0];
+    if (track) return { entry, track, score: 1, by: 'isrc' };
+  }
+
+  if (!entry.title) return { entry, score: 0, by: 'none' };
+
+  let best = await searchEntry(entry);
+  if (best.score < CONFIDENT_MATCH_SCORE && entry.byline) {
+    const split = await searchEntry({ ...entry, ...entry.byline });
+    if (split.score > best.score) best = { ...split, entry };
+  }
+
+  return best.score >= MIN_MATCH_SCORE ? best : { entry, score: best.score, by: 'none', closest: best.track };
+}
+
+// The best-scoring result of searching for an entry's title and first artist
+async function searchEntry(entry: ImportEntry): Promise<ImportMatch> {
+  // A field search first, then a looser one for titles and names written differently
+  const title = normalizeTitle(entry.title);
+  const artist = entry.artists[0] ? normalizeText(entry.artists[0]) : '';
+  const queries = artist ? [`track:${title} artist:${artist}`, `${title} ${artist}`] : [title];
+
+  let best: ImportMatch = { entry, score: 0, by: 'none' };
+  for (const query of queries) {
+    const results = await spotifyClient.search(query, ['track'], SEARCH_RESULTS);
+    for (const track of results.tracks?.items || []) {
+      const score = matchScore(entry, track);
+      if (score > best.score) best = { entry, track, score, by: 'search' };
+    }
+    if (best.score >= CONFIDENT_MATCH_SCORE) break;
+  }
+  return best;
+}
+
+export function describeEntry(entry: ImportEntry): string {
+  if (!entry.title) return entry.uri || `line ${entry.line}`;
+  return entry.artists.length > 0 ? `${entry.artists.join(', ')} - ${entry.title}` : entry.title;
+}
@@ -0,0 +1,42 @@
+import { spotifyClient } from './spotify-client';
+import { SpotifyPlaylist } from '../types/spotify';
+
+// Pull a playlist ID out of an open.spotify.com URL, a spotify:playlist: URI or a bare ID
+export function parsePlaylistId(ref: string): string | null {
+  const value = ref.trim();
+
+  const urlMatch = value.match(/open\.spotify\.com\/(?:[\w-]+\/)?playlist\/([A-Za-z0-9]+)/);
+  if (urlMatch) return urlMatch[1];
+
+  const uriMatch = value.match(/^spotify:playlist:([A-Za-z0-9]+)$/);
+  if (uriMatch) return uriMatch[1];
+
+  // Spotify IDs are 22 base-62 characters
+  if (/^[A-Za-z0-9]{22}$/.test(value)) return value;
+
+  return null;
+}
+
+// Find a playlist by ID, URL, URI or (case-insensitive) name among the user's playlists
+export async function resolvePlaylist(ref: string): Promise<SpotifyPlaylist> {
+  const id = parsePlaylistId(ref);
+  if (id) {
+    return spotifyClient.getPlaylist(id);
+  }
+
+  const name = ref.trim().toLowerCase();
+  const matches = (await spotifyClient.getUserPlaylists())
+    .filter(p => p.name.toLowerCase() === name);
+
+  if (matches.length === 0) {
+    throw new Error(`No playlist named "${ref}" found in your library`);
+  }
+  if (matches.length > 1) {
+    throw new Error(
+      `${matches.length} playlists are named "${ref}". Use the playlist URL or ID instead:\n` +
+      matches.map(p => `  ${p.external_urls.spotify}`).join('\n')
+    );
+  }
+
+  return matches[0];
+}
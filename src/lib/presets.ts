@@ -0,0 +1,235 @@
+import { RecommendationParams, WeightedIntent } from '../types/spotify';
+import { PresetDefinition, PresetKind, loadUserPresets } from './user-presets';
+
+// Mood presets - maps mood to target audio features
+export const MOOD_PRESETS: Record<string, Partial<RecommendationParams>> = {
+  happy: {
+    target_valence: 0.8,
+    target_energy: 0.7,
+    target_danceability: 0.65
+  },
+  sad: {
+    target_valence: 0.2,
+    target_energy: 0.3,
+    target_acousticness: 0.6
+  },
+  energetic: {
+    target_energy: 0.9,
+    target_danceability: 0.8,
+    target_valence: 0.7
+  },
+  chill: {
+    target_energy: 0.3,
+    target_danceability: 0.4,
+    target_acousticness: 0.5,
+    target_valence: 0.5
+  },
+  angry: {
+    target_energy: 0.9,
+    target_valence: 0.2,
+    target_danceability: 0.5
+  },
+  romantic: {
+    target_valence: 0.6,
+    target_energy: 0.4,
+    target_acousticness: 0.5,
+    target_danceability: 0.5
+  }
+};
+
+// Activity presets
+export const ACTIVITY_PRESETS: Record<string, Partial<RecommendationParams>> = {
+  workout: {
+    target_energy: 0.9,
+    target_danceability: 0.75,
+    target_valence: 0.7,
+    target_tempo: 140
+  },
+  focus: {
+    target_energy: 0.4,
+    target_instrumentalness: 0.7,
+    target_valence: 0.5,
+    target_acousticness: 0.3
+  },
+  party: {
+    target_energy: 0.85,
+    target_danceability: 0.9,
+    target_valence: 0.8,
+    min_popularity: 50
+  },
+  sleep: {
+    target_energy: 0.15,
+    target_acousticness: 0.7,
+    target_instrumentalness: 0.5,
+    target_tempo: 70
+  },
+  commute: {
+    target_energy: 0.6,
+    target_valence: 0.6,
+    target_danceability: 0.6
+  },
+  cooking: {
+    target_energy: 0.6,
+    target_valence: 0.7,
+    target_danceability: 0.65
+  }
+};
+
+// Time of day presets
+export const TIME_PRESETS: Record<string, Partial<RecommendationParams>> = {
+  morning: {
+    target_energy: 0.5,
+    target_valence: 0.7,
+    target_acousticness: 0.4
+  },
+  afternoon: {
+    target_energy: 0.65,
+    target_valence: 0.65,
+    target_danceability: 0.6
+  },
+  evening: {
+    target_energy: 0.55,
+    target_valence: 0.55,
+    target_danceability: 0.5
+  },
+  night: {
+    target_energy: 0.35,
+    target_valence: 0.4,
+    target_acousticness: 0.5
+  }
+};
+
+const SEED_KEYS = ['seed_artists', 'seed_tracks', 'seed_genres'] as const;
+type SeedKey = typeof SEED_KEYS[number];
+
+// Two intents whose targets for the same feature differ by more than this are flagged
+const CONFLICT_THRESHOLD = 0.45;
+const TEMPO_CONFLICT_THRESHOLD = 45;
+
+// One ingredient of a blended playlist: a preset or parsed vibe with its weight
+export interface ComposedIntent {
+  label: string;
+  weight: number;
+  params: Partial<RecommendationParams>;
+}
+
+export interface Composition {
+  intents: ComposedIntent[];
+  params: Partial<RecommendationParams>;  // Weighted blend of every intent's values
+  conflicts: string[];
+}
+
+const BUILT_IN_PRESETS: Record<PresetKind, Record<string, Partial<RecommendationParams>>> = {
+  mood: MOOD_PRESETS,
+  activity: ACTIVITY_PRESETS,
+  time: TIME_PRESETS
+};
+
+// Look up a mood, activity or time of day; presets from the user's presets file
+// take precedence over the built-in ones
+function findPreset(intent: Pick<WeightedIntent, 'kind' | 'name'>): PresetDefinition | undefined {
+  const custom = loadUserPresets()[intent.kind][intent.name];
+  if (custom) return custom;
+
+  const params = BUILT_IN_PRESETS[intent.kind][intent.name];
+  return params ? { params } : undefined;
+}
+
+export function getPreset(intent: Pick<WeightedIntent, 'kind' | 'name'>): Partial<RecommendationParams> | undefined {
+  return findPreset(intent)?.params;
+}
+
+// The default track count or duration a preset asks for, if any
+export function getPresetDefaults(intent: Pick<WeightedIntent, 'kind' | 'name'>): { trackCount?: number; duration?: number } {
+  const preset = findPreset(intent);
+  return { trackCount: preset?.trackCount, duration: preset?.duration };
+}
+
+// Built-in names first, then custom ones. An invalid presets file only hides the custom
+// names here so `--help` still works; generating a playlist reports the error.
+export function listPresetNames(kind: PresetKind): string[] {
+  let custom: string[] = [];
+  try {
+    custom = Object.keys(loadUserPresets()[kind]);
+  } catch {
+    // Reported when the presets are actually used
+  }
+  return [...new Set([...Object.keys(BUILT_IN_PRESETS[kind]), ...custom])];
+}
+
+// Blend several intents: each value is the weighted average over the intents that set it,
+// so an intent that says nothing about a feature doesn't drag it towards zero
+export function composeIntents(intents: ComposedIntent[]): Composition {
+  const sums: Record<string, { total: number; weight: number }> = {};
+  const seeds: Record<SeedKey, Set<string>> = {
+    seed_artists: new Set(),
+    seed_tracks: new Set(),
+    seed_genres: new Set()
+  };
+
+  for (const intent of intents) {
+    for (const key of SEED_KEYS) {
+      intent.params[key]?.forEach(seed => seeds[key].add(seed));
+    }
+
+    for (const [key, value] of Object.entries(intent.params)) {
+      if (typeof value !== 'number') continue;
+      sums[key] = sums[key] || { total: 0, weight: 0 };
+      sums[key].total += value * intent.weight;
+      sums[key].weight += intent.weight;
+    }
+  }
+
+  const params: Record<string, number> = {};
+  for (const [key, { total, weight }] of Object.entries(sums)) {
+    const value = total / weight;
+    params[key] = key.endsWith('_popularity') ? Math.round(value) : value;
+  }
+
+  // Seeds can't be averaged, so every intent's seeds are used
+  const composed: Partial<RecommendationParams> = params;
+  for (const key of SEED_KEYS) {
+    if (seeds[key].size > 0) {
+      composed[key] = [...seeds[key]].slice(0, 5);
+    }
+  }
+
+  return {
+    intents,
+    params: composed,
+    conflicts: findConflicts(intents)
+  };
+}
+
+// Pairs of intents pulling the same feature in opposite directions (e.g. sleep + energetic)
+function findConflicts(intents: ComposedIntent[]): string[] {
+  const conflicts: string[] = [];
+
+  for (let i = 0; i < intents.length; i++) {
+    for (let j = i + 1; j < intents.length; j++) {
+      const a = intents[i];
+      const b = intents[j];
+
+      for (const [key, valueA] of Object.entries(a.params)) {
+        const valueB = b.params[key as keyof RecommendationParams];
+        if (!key.startsWith('target_') || typeof valueA !== 'number' || typeof valueB !== 'number') continue;
+
+        const threshold = key === 'target_tempo' ? TEMPO_CONFLICT_THRESHOLD : CONFLICT_THRESHOLD;
+        if (Math.abs(valueA - valueB) > threshold) {
+          const feature = key.replace('target_', '');
+          conflicts.push(
+            `${a.label} and ${b.label} pull ${feature} in opposite directions (${formatValue(key, valueA)} vs ${formatValue(key, valueB)})`
+          );
+        }
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+export function formatValue(key: string, value: number): string {
+  if (key === 'target_tempo') return `${Math.round(value)} BPM`;
+  if (key.endsWith('_popularity')) return String(Math.round(value));
+  return value.toFixed(2);
+}
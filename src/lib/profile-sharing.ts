@@ -0,0 +1,221 @@
+import fs from 'fs';
+import { ExportedProfile, ProfileCompatibility, TasteProfile } from '../types/spotify';
+import { AnalysisData } from './taste-analyzer';
+
+// Bump when the exported format changes incompatibly
+export const PROFILE_VERSION = 1;
+
+const FEATURES = ['danceability', 'energy', 'valence', 'acousticness', 'instrumentalness'] as const;
+const RANGE_FEATURES = ['danceability', 'energy', 'valence', 'tempo'] as const;
+
+// How much each part counts towards a pair's compatibility
+const GENRE_WEIGHT = 0.4;
+const FEATURE_WEIGHT = 0.4;
+const ARTIST_WEIGHT = 0.2;
+
+export interface ProfileMember {
+  label: string;
+  profile: TasteProfile;
+}
+
+// A portable copy of a taste profile, with the names behind its artist and track IDs
+export function exportProfile(profile: TasteProfile, data: AnalysisData, owner: string): ExportedProfile {
+  const artists = new Map(
+    [...data.topArtists.shortTerm, ...data.topArtists.mediumTerm, ...data.topArtists.longTerm].map(a => [a.id, a.name])
+  );
+  const tracks = new Map(
+    [...data.topTracks.shortTerm, ...data.topTracks.mediumTerm, ...data.topTracks.longTerm].map(t => [t.id, t])
+  );
+
+  return {
+    version: PROFILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    owner,
+    profile,
+    artists: profile.topArtistIds.map(id => ({ id, name: artists.get(id) || id })),
+    tracks: profile.topTrackIds.map(id => {
+      const track = tracks.get(id);
+      return { id, name: track?.name || id, artists: track ? track.artists.map(a => a.name) : [] };
+    })
+  };
+}
+
+export function writeProfile(file: string, exported: ExportedProfile): void {
+  fs.writeFileSync(file, JSON.stringify(exported, null, 2) + '\n');
+}
+
+export function readProfile(file: string): ExportedProfile {
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err: any) {
+    throw new Error(`Could not read profile ${file}: ${err.message}`);
+  }
+
+  if (typeof raw?.version !== 'number' || typeof raw.profile !== 'object' || raw.profile === null) {
+    throw new Error(`${file} is not a spotify-gen taste profile (create one with: spotify-gen analyze --export <file>)`);
+  }
+  if (raw.version > PROFILE_VERSION) {
+    throw new Error(`${file} was exported by a newer version of spotify-gen. Please upgrade.`);
+  }
+
+  const profile = raw.profile;
+  const missing = missingProfileParts(profile);
+  if (missing.length > 0) {
+    throw new Error(
+      `${file} is not a complete spotify-gen taste profile (missing ${missing.join(', ')}). ` +
+      'Export it again with: spotify-gen analyze --export <file>'
+    );
+  }
+
+  return raw as ExportedProfile;
+}
+
+// Parts of a taste profile that blending reads, listed when they're absent or the wrong shape
+function missingProfileParts(profile: any): string[] {
+  const missing: string[] = [];
+  if (!Array.isArray(profile.topGenres)) missing.push('topGenres');
+  if (typeof profile.avgFeatures !== 'object' || profile.avgFeatures === null) missing.push('avgFeatures');
+  if (!Array.isArray(profile.topArtistIds)) missing.push('topArtistIds');
+  if (!Array.isArray(profile.topTrackIds)) missing.push('topTrackIds');
+
+  for (const feature of RANGE_FEATURES) {
+    const range = profile.featureRanges?.[feature];
+    if (typeof range?.min !== 'number' || typeof range?.max !== 'number') {
+      missing.push(`featureRanges.${feature}`);
+    }
+  }
+
+  const patterns = profile.listeningPatterns;
+  if (typeof patterns !== 'object' || patterns === null || typeof patterns.avgPopularity !== 'number' ||
+      typeof patterns.prefersMajorKey !== 'boolean' || typeof patterns.prefersHighEnergy !== 'boolean' ||
+      typeof patterns.prefersAcoustic !== 'boolean') {
+    missing.push('listeningPatterns');
+  }
+  return missing;
+}
+
+// Merge several people's profiles: genres they share come first, audio features are averaged,
+// and top artists/tracks take turns so every person gets seeds
+export function blendProfiles(members: ProfileMember[]): { profile: TasteProfile; compatibility: ProfileCompatibility } {
+  const profiles = members.map(m => m.profile);
+  const genreShares = profiles.map(genreWeights);
+
+  const combined = new Map<string, { weight: number; people: number }>();
+  for (const shares of genreShares) {
+    for (const [genre, weight] of shares) {
+      const entry = combined.get(genre) || { weight: 0, people: 0 };
+      entry.weight += weight;
+      entry.people++;
+      combined.set(genre, entry);
+    }
+  }
+
+  const topGenres = [...combined.entries()]
+    .sort((a, b) => b[1].people - a[1].people || b[1].weight - a[1].weight)
+    .slice(0, 20)
+    .map(([genre, { weight }]) => ({ genre, count: Math.round(weight * 100) }));
+  const sharedGenres = [...combined.entries()]
+    .filter(([, { people }]) => people > 1)
+    .sort((a, b) => b[1].weight - a[1].weight)
+    .map(([genre]) => genre);
+
+  const average = (pick: (p: TasteProfile) => number) => profiles.reduce((sum, p) => sum + pick(p), 0) / profiles.length;
+  const avgFeatures = {
+    danceability: average(p => p.avgFeatures.danceability),
+    energy: average(p => p.avgFeatures.energy),
+    valence: average(p => p.avgFeatures.valence),
+    acousticness: average(p => p.avgFeatures.acousticness),
+    instrumentalness: average(p => p.avgFeatures.instrumentalness),
+    tempo: average(p => p.avgFeatures.tempo),
+    loudness: average(p => p.avgFeatures.loudness)
+  };
+
+  // Keep anything someone in the group listens to inside the ranges
+  const range = (key: keyof TasteProfile['featureRanges']) => ({
+    min: Math.min(...profiles.map(p => p.featureRanges[key].min)),
+    max: Math.max(...profiles.map(p => p.featureRanges[key].max))
+  });
+
+  const majorVotes = profiles.filter(p => p.listeningPatterns.prefersMajorKey).length;
+
+  const profile: TasteProfile = {
+    topGenres,
+    avgFeatures,
+    featureRanges: {
+      danceability: range('danceability'),
+      energy: range('energy'),
+      valence: range('valence'),
+      tempo: range('tempo')
+    },
+    topArtistIds: takeTurns(profiles.map(p => p.topArtistIds)),
+    topTrackIds: takeTurns(profiles.map(p => p.topTrackIds)),
+    listeningPatterns: {
+      prefersMajorKey: majorVotes * 2 > profiles.length,
+      prefersHighEnergy: avgFeatures.energy > 0.6,
+      prefersAcoustic: avgFeatures.acousticness > 0.4,
+      avgPopularity: average(p => p.listeningPatterns.avgPopularity)
+    }
+  };
+
+  const pairs: ProfileCompatibility['pairs'] = [];
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      pairs.push({
+        a: members[i].label,
+        b: members[j].label,
+        score: pairCompatibility(members[i].profile, genreShares[i], members[j].profile, genreShares[j])
+      });
+    }
+  }
+  const score = pairs.length > 0
+    ? Math.round(pairs.reduce((sum, p) => sum + p.score, 0) / pairs.length)
+    : 100;
+
+  return { profile, compatibility: { score, pairs, sharedGenres } };
+}
+
+// 0-100 from how much of their genre listening overlaps, how close their average
+// features are and how many top artists they share
+function pairCompatibility(
+  a: TasteProfile,
+  genresA: Map<string, number>,
+  b: TasteProfile,
+  genresB: Map<string, number>
+): number {
+  let genreOverlap = 0;
+  for (const [genre, weight] of genresA) {
+    genreOverlap += Math.min(weight, genresB.get(genre) || 0);
+  }
+
+  const differences = FEATURES.map(f => Math.abs(a.avgFeatures[f] - b.avgFeatures[f]));
+  differences.push(Math.min(1, Math.abs(a.avgFeatures.tempo - b.avgFeatures.tempo) / 100));
+  const featureCloseness = 1 - differences.reduce((sum, d) => sum + d, 0) / differences.length;
+
+  const artistsB = new Set(b.topArtistIds);
+  const smaller = Math.min(a.topArtistIds.length, b.topArtistIds.length);
+  const artistOverlap = smaller > 0 ? a.topArtistIds.filter(id => artistsB.has(id)).length / smaller : 0;
+
+  return Math.round(100 * (GENRE_WEIGHT * genreOverlap + FEATURE_WEIGHT * featureCloseness + ARTIST_WEIGHT * artistOverlap));
+}
+
+// Each genre's share of a person's genre listening, so heavy listeners don't dominate
+function genreWeights(profile: TasteProfile): Map<string, number> {
+  const total = profile.topGenres.reduce((sum, g) => sum + g.count, 0) || 1;
+  return new Map(profile.topGenres.map(g => [g.genre, g.count / total]));
+}
+
+// [[a1, a2], [b1, b2]] -> [a1, b1, a2, b2], skipping repeats
+function takeTurns(lists: string[][]): string[] {
+  const result: string[] = [];
+  const longest = Math.max(0, ...lists.map(l => l.length));
+
+  for (let i = 0; i < longest; i++) {
+    for (const list of lists) {
+      if (i < list.length && !result.includes(list[i])) {
+        result.push(list[i]);
+      }
+    }
+  }
+  return result;
+}
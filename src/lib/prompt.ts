@@ -0,0 +1,22 @@
+import readline from 'readline';
+import chalk from 'chalk';
+
+// Ask a yes/no question on the terminal. Anything but "y"/"yes" counts as no,
+// and so does a non-interactive stdin (pipes, cron, CI).
+export async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    return false;
+  }
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout
+  });
+
+  return new Promise((resolve) => {
+    rl.question(`${question} ${chalk.dim('(y/N)')} `, (answer) => {
+      rl.close();
+      resolve(/^y(es)?$/i.test(answer.trim()));
+    });
+  });
+}
@@ -0,0 +1,147 @@
+import { SpotifyTrack, AudioFeatures, RecommendationParams, TasteProfile } from '../types/spotify';
+
+export type ScoredFeature = 'danceability' | 'energy' | 'valence' | 'acousticness' | 'instrumentalness' | 'tempo';
+
+export const SCORED_FEATURES: ScoredFeature[] = ['danceability', 'energy', 'valence', 'acousticness', 'instrumentalness', 'tempo'];
+
+export const DEFAULT_FEATURE_WEIGHTS: Record<ScoredFeature, number> = {
+  energy: 1,
+  valence: 1,
+  danceability: 1,
+  acousticness: 0.5,
+  instrumentalness: 0.5,
+  tempo: 0.5
+};
+
+// Tempo differences are scaled so 100 BPM counts the same as the full 0-1 range of other features
+export const TEMPO_SCALE = 100;
+
+// Weight of the penalty for falling outside the user's own feature ranges
+const TASTE_RANGE_WEIGHT = 0.5;
+
+export const DEFAULT_MAX_DEVIATION = 0.3;
+export const STRICT_MAX_DEVIATION = 0.15;
+
+export interface RankingOptions {
+  targets: Partial<Record<ScoredFeature, number>>;
+  weights: Record<ScoredFeature, number>;
+  maxDeviation: number;  // Largest allowed (normalised) difference from any target
+  minPopularity?: number;
+  maxPopularity?: number;
+  tasteRanges?: TasteProfile['featureRanges'];
+  bounds?: Partial<Record<ScoredFeature, { min: number; max: number }>>;  // Hard limits, e.g. the user's p10-p90
+}
+
+export interface RankedTrack {
+  track: SpotifyTrack;
+  distance: number;
+}
+
+// Parse "energy=2,valence=0.5" into per-feature weights on top of the defaults
+export function parseFeatureWeights(input: string): Record<ScoredFeature, number> {
+  const weights = { ...DEFAULT_FEATURE_WEIGHTS };
+
+  for (const part of input.split(',')) {
+    const [name, value] = part.split('=').map(p => p.trim());
+    const weight = Number(value);
+
+    if (!SCORED_FEATURES.includes(name as ScoredFeature) || value === undefined || isNaN(weight) || weight < 0) {
+      throw new Error(
+        `Invalid feature weight "${part}". Use feature=weight with one of: ${SCORED_FEATURES.join(', ')}`
+      );
+    }
+    weights[name as ScoredFeature] = weight;
+  }
+
+  return weights;
+}
+
+// The target_* values of a recommendation request, keyed by feature
+export function targetsFromParams(params: RecommendationParams): Partial<Record<ScoredFeature, number>> {
+  const targets: Partial<Record<ScoredFeature, number>> = {};
+
+  for (const feature of SCORED_FEATURES) {
+    const value = params[`target_${feature}` as keyof RecommendationParams];
+    if (typeof value === 'number') {
+      targets[feature] = value;
+    }
+  }
+
+  return targets;
+}
+
+function featureDistance(feature: ScoredFeature, value: number, target: number): number {
+  const diff = Math.abs(value - target);
+  return feature === 'tempo' ? diff / TEMPO_SCALE : diff;
+}
+
+// How far outside the user's own min/max range a track falls (0 when inside)
+function tasteRangePenalty(features: AudioFeatures, ranges: TasteProfile['featureRanges']): number {
+  let penalty = 0;
+
+  for (const [feature, range] of Object.entries(ranges) as [ScoredFeature, { min: number; max: number }][]) {
+    const value = features[feature];
+    const outside = Math.max(range.min - value, value - range.max, 0);
+    penalty += feature === 'tempo' ? outside / TEMPO_SCALE : outside;
+  }
+
+  return penalty;
+}
+
+// Weighted distance of a track to the targets, or null if it breaks a hard bound
+export function scoreTrack(track: SpotifyTrack, features: AudioFeatures, options: RankingOptions): number | null {
+  if (options.minPopularity !== undefined && track.popularity < options.minPopularity) return null;
+  if (options.maxPopularity !== undefined && track.popularity > options.maxPopularity) return null;
+
+  for (const [feature, bound] of Object.entries(options.bounds || {}) as [ScoredFeature, { min: number; max: number }][]) {
+    if (features[feature] < bound.min || features[feature] > bound.max) return null;
+  }
+
+  let sum = 0;
+  let totalWeight = 0;
+
+  for (const [feature, target] of Object.entries(options.targets) as [ScoredFeature, number][]) {
+    const distance = featureDistance(feature, features[feature], target);
+    if (distance > options.maxDeviation) return null;
+
+    const weight = options.weights[feature];
+    sum += weight * distance * distance;
+    totalWeight += weight;
+  }
+
+  const distance = totalWeight > 0 ? Math.sqrt(sum / totalWeight) : 0;
+  const penalty = options.tasteRanges ? tasteRangePenalty(features, options.tasteRanges) : 0;
+
+  return distance + TASTE_RANGE_WEIGHT * penalty;
+}
+
+// Rank candidates closest-first. Tracks without audio features can't be checked
+// and are treated as rejected.
+export function rankCandidates(
+  tracks: SpotifyTrack[],
+  audioFeatures: Map<string, AudioFeatures>,
+  options: RankingOptions
+): { accepted: RankedTrack[]; rejected: RankedTrack[] } {
+  const accepted: RankedTrack[] = [];
+  const rejected: RankedTrack[] = [];
+
+  for (const track of tracks) {
+    const features = audioFeatures.get(track.id);
+    const distance = features ? scoreTrack(track, features, options) : null;
+
+    if (distance === null) {
+      // Still rank rejected tracks so the closest can pad a short playlist
+      const looseDistance = features
+        ? scoreTrack(track, features, { ...options, maxDeviation: Infinity, minPopularity: undefined, maxPopularity: undefined, bounds: undefined })!
+        : Infinity;
+      rejected.push({ track, distance: looseDistance });
+    } else {
+      accepted.push({ track, distance });
+    }
+  }
+
+  accepted.sort((a, b) => a.distance - b.distance);
+  rejected.sort((a, b) => a.distance - b.distance);
+
+  return { accepted, rejected };
+}
@@ -0,0 +1,79 @@
+import { SpotifyTrack, AudioFeatures } from '../types/spotify';
+
+// Named energy curves - control points from the first track (0) to the last (1)
+export const ENERGY_ARCS: Record<string, number[]> = {
+  // Warmup, peak, cooldown
+  workout: [0.5, 0.7, 0.9, 0.95, 0.9, 0.65, 0.4],
+  // Steady build towards the end of the night
+  party: [0.55, 0.65, 0.75, 0.85, 0.95],
+  // Monotonic decline into quiet
+  sleep: [0.45, 0.3, 0.2, 0.1, 0.05]
+};
+
+// Parse an arc from the CLI: either a named arc or a comma-separated curve like "0.4,0.9,0.3".
+// Returns null for "none" so a preset's default arc can be switched off.
+export function parseArc(input: string): number[] | null {
+  const value = input.trim().toLowerCase();
+
+  if (value === 'none') {
+    return null;
+  }
+
+  if (ENERGY_ARCS[value]) {
+    return ENERGY_ARCS[value];
+  }
+
+  const points = value.split(',').map(p => Number(p.trim()));
+  if (points.length < 2 || points.some(p => isNaN(p) || p < 0 || p > 1)) {
+    throw new Error(
+      `Invalid arc "${input}". Use one of ${Object.keys(ENERGY_ARCS).join(', ')}, ` +
+      'or at least two comma-separated energy values between 0 and 1 (e.g. "0.4,0.9,0.3")'
+    );
+  }
+
+  return points;
+}
+
+// Target energy at a position (0-1) along the curve, interpolating between control points
+export function energyAt(curve: number[], position: number): number {
+  if (curve.length === 1) return curve[0];
+
+  const scaled = Math.min(Math.max(position, 0), 1) * (curve.length - 1);
+  const index = Math.min(Math.floor(scaled), curve.length - 2);
+  const fraction = scaled - index;
+
+  return curve[index] + (curve[index + 1] - curve[index]) * fraction;
+}
+
+// Order tracks so each slot's energy is as close as possible to the curve's target there.
+// Matching the sorted energies to the sorted slot targets minimises the total distance.
+// Tracks without audio features can't be placed and are kept at the end.
+export function sequenceByEnergy(
+  tracks: SpotifyTrack[],
+  features: Map<string, AudioFeatures>,
+  curve: number[]
+): SpotifyTrack[] {
+  const placeable = tracks.filter(t => features.has(t.id));
+  const unplaceable = tracks.filter(t => !features.has(t.id));
+
+  if (placeable.length < 2) {
+    return tracks;
+  }
+
+  const slots = placeable.map((_, i) => ({
+    index: i,
+    target: energyAt(curve, i / (placeable.length - 1))
+  }));
+  slots.sort((a, b) => a.target - b.target);
+
+  const byEnergy = [...placeable].sort(
+    (a, b) => features.get(a.id)!.energy - features.get(b.id)!.energy
+  );
+
+  const ordered: SpotifyTrack[] = new Array(placeable.length);
+  slots.forEach((slot, rank) => {
+    ordered[slot.index] = byEnergy[rank];
+  });
+
+  return [...ordered, ...unplaceable];
+}
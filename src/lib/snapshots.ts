@@ -0,0 +1,73 @@
+import Conf from 'conf';
+import { TasteProfile } from '../types/spotify';
+import { AnalysisData } from './taste-analyzer';
+
+// A saved taste profile, so later runs can see how listening has drifted
+export interface TasteSnapshot {
+  id: number;
+  takenAt: string;  // ISO timestamp
+  profile: TasteProfile;
+  artists: { id: string; name: string }[];  // Top artists of the last 4 weeks
+  tracks: { id: string; name: string; artists: string[] }[];
+}
+
+interface SnapshotSchema {
+  snapshots: TasteSnapshot[];
+}
+
+// Oldest snapshots are dropped beyond this many
+const MAX_SNAPSHOTS = 100;
+
+// How many top artists and tracks each snapshot keeps
+const TOP_ITEMS = 20;
+
+const store = new Conf<SnapshotSchema>({
+  projectName: 'spotify-playlist-gen',
+  configName: 'snapshots',
+  schema: {
+    snapshots: {
+      type: 'array',
+      default: [],
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'number' },
+          takenAt: { type: 'string' },
+          profile: { type: 'object' },
+          artists: { type: 'array', items: { type: 'object' } },
+          tracks: { type: 'array', items: { type: 'object' } }
+        }
+      }
+    }
+  }
+});
+
+export function saveSnapshot(profile: TasteProfile, data: AnalysisData): TasteSnapshot {
+  const snapshots = store.get('snapshots');
+  const snapshot: TasteSnapshot = {
+    id: (snapshots[snapshots.length - 1]?.id || 0) + 1,
+    takenAt: new Date().toISOString(),
+    profile,
+    artists: data.topArtists.shortTerm.slice(0, TOP_ITEMS).map(a => ({ id: a.id, name: a.name })),
+    tracks: data.topTracks.shortTerm.slice(0, TOP_ITEMS).map(t => ({
+      id: t.id,
+      name: t.name,
+      artists: t.artists.map(a => a.name)
+    }))
+  };
+
+  snapshots.push(snapshot);
+  store.set('snapshots', snapshots.slice(-MAX_SNAPSHOTS));
+  return snapshot;
+}
+
+export function getSnapshots(): TasteSnapshot[] {
+  return store.get('snapshots');
+}
+
+// Find a snapshot by ID, or "latest" for the most recent one
+export function findSnapshot(ref: string): TasteSnapshot | undefined {
+  const snapshots = getSnapshots();
+  if (ref === 'latest') return snapshots[snapshots.length - 1];
+  return snapshots.find(s => s.id === parseInt(ref));
+}
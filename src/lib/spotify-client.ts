@@ -1,11 +1,16 @@
 import fetch from 'node-fetch';
-import { SpotifyTokens, SpotifyUser, SpotifyTrack, SpotifyArtist, AudioFeatures, SpotifyPlaylist } from '../types/spotify';
+import { SpotifyTokens, SpotifyUser, SpotifyTrack, SpotifyArtist, AudioFeatures, SpotifyPlaylist, PlaylistItem } from '../types/spotify';
 import { getConfig, saveTokens } from './config';
 
 const SPOTIFY_API_BASE = 'https://api.spotify.com/v1';
 
+// Rate-limited requests are retried this many times, if Spotify asks to wait no longer than this
+const MAX_RATE_LIMIT_RETRIES = 3;
+const MAX_RETRY_AFTER_SECONDS = 60;
+
 class SpotifyClient {
   private tokens: SpotifyTokens | null = null;
+  private availableGenres: string[] | null = null;  // Fetched once per run
 
   async init(): Promise<boolean> {
     const config = getConfig();
@@ -51,7 +56,7 @@ class SpotifyClient {
     saveTokens(this.tokens);
   }
 
-  private async request<T>(endpoint: string, options: any = {}): Promise<T> {
+  private async request<T>(endpoint: string, options: any = {}, retries = 0): Promise<T> {
     if (!this.tokens) {
       throw new Error('Not authenticated. Run: spotify-gen auth');
     }
@@ -75,6 +80,15 @@ class SpotifyClient {
       return this.request<T>(endpoint, options);
     }
 
+    if (response.status === 429) {
+      const retryAfter = parseInt(response.headers.get('retry-after') || '1') || 1;
+      if (retries < MAX_RATE_LIMIT_RETRIES && retryAfter <= MAX_RETRY_AFTER_SECONDS) {
+        await new Promise(r => setTimeout(r, retryAfter * 1000));
+        return this.request<T>(endpoint, options, retries + 1);
+      }
+      throw new Error(`Spotify API rate limit reached. Try again in ${retryAfter} seconds.`);
+    }
+
     if (!response.ok) {
       const error = await response.text();
       throw new Error(`Spotify API error: ${response.status} - ${error}`);
@@ -114,6 +128,25 @@ class SpotifyClient {
     return response.items;
   }
 
+  // Saved tracks ("Liked Songs"), paging through the whole library
+  async getSavedTracks(): Promise<SpotifyTrack[]> {
+    const tracks: SpotifyTrack[] = [];
+    let offset = 0;
+    let total = Infinity;
+
+    while (offset < total) {
+      const response = await this.request<{ items: { track: SpotifyTrack }[]; total: number }>(
+        `/me/tracks?limit=50&offset=${offset}`
+      );
+      tracks.push(...response.items.map(item => item.track));
+      total = response.total;
+      offset += 50;
+      if (response.items.length === 0) break;
+    }
+
+    return tracks;
+  }
+
   // Audio features
   async getAudioFeatures(trackIds: string[]): Promise<AudioFeatures[]> {
     if (trackIds.length === 0) return [];
@@ -151,15 +184,15 @@ class SpotifyClient {
     max_popularity?: number;
   }): Promise<SpotifyTrack[]> {
     const queryParams = new URLSearchParams();
-    
-    if (params.seed_artists?.length) {
-      queryParams.set('seed_artists', params.seed_artists.slice(0, 5).join(','));
-    }
-    if (params.seed_tracks?.length) {
-      queryParams.set('seed_tracks', params.seed_tracks.slice(0, 5).join(','));
-    }
-    if (params.seed_genres?.length) {
-      queryParams.set('seed_genres', params.seed_genres.slice(0, 5).join(','));
+
+    // Spotify accepts at most 5 seeds across artists, tracks and genres combined
+    let seedsLeft = 5;
+    for (const key of ['seed_artists', 'seed_tracks', 'seed_genres'] as const) {
+      const seeds = params[key]?.slice(0, seedsLeft) || [];
+      if (seeds.length) {
+        queryParams.set(key, seeds.join(','));
+        seedsLeft -= seeds.length;
+      }
     }
     
     queryParams.set('limit', String(params.limit || 20));
@@ -234,18 +267,126 @@ class SpotifyClient {
     }
   }
 
+  // Replace all items in a playlist. The API takes 100 URIs per call, so the first
+  // chunk replaces and the rest are appended.
+  async replacePlaylistTracks(playlistId: string, trackUris: string[]): Promise<void> {
+    await this.request(`/playlists/${playlistId}/tracks`, {
+      method: 'PUT',
+      body: JSON.stringify({ uris: trackUris.slice(0, 100) })
+    });
+
+    if (trackUris.length > 100) {
+      await this.addTracksToPlaylist(playlistId, trackUris.slice(100));
+    }
+  }
+
+  // Remove particular occurrences of tracks (0-based positions in the snapshot given), 100
+  // tracks per call. Returns the new snapshot ID.
+  async removePlaylistItems(
+    playlistId: string,
+    items: { uri: string; positions: number[] }[],
+    snapshotId?: string
+  ): Promise<string | undefined> {
+    let latest = snapshotId;
+    for (let i = 0; i < items.length; i += 100) {
+      const response = await this.request<{ snapshot_id: string }>(`/playlists/${playlistId}/tracks`, {
+        method: 'DELETE',
+        // Every chunk's positions refer to the playlist before any removal
+        body: JSON.stringify({ tracks: items.slice(i, i + 100), snapshot_id: snapshotId })
+      });
+      latest = response.snapshot_id;
+    }
+    return latest;
+  }
+
+  // Move a range of items to a new position; returns the new snapshot ID
+  async reorderPlaylistItems(
+    playlistId: string,
+    rangeStart: number,
+    insertBefore: number,
+    rangeLength = 1,
+    snapshotId?: string
+  ): Promise<string> {
+    const response = await this.request<{ snapshot_id: string }>(`/playlists/${playlistId}/tracks`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        range_start: rangeStart,
+        insert_before: insertBefore,
+        range_length: rangeLength,
+        snapshot_id: snapshotId
+      })
+    });
+    return response.snapshot_id;
+  }
+
+  async getPlaylist(playlistId: string): Promise<SpotifyPlaylist> {
+    return this.request<SpotifyPlaylist>(`/playlists/${playlistId}?fields=id,name,description,public,owner,snapshot_id,tracks.total,external_urls`);
+  }
+
+  async updatePlaylistDetails(
+    playlistId: string,
+    details: { name?: string; description?: string; public?: boolean }
+  ): Promise<void> {
+    await this.request(`/playlists/${playlistId}`, {
+      method: 'PUT',
+      body: JSON.stringify(details)
+    });
+  }
+
+  // All of the current user's playlists (owned and followed)
+  async getUserPlaylists(): Promise<SpotifyPlaylist[]> {
+    const playlists: SpotifyPlaylist[] = [];
+    let next: string | null = '/me/playlists?limit=50';
+
+    while (next) {
+      const response: { items: SpotifyPlaylist[]; next: string | null } = await this.request(next);
+      playlists.push(...response.items);
+      next = response.next ? response.next.replace(SPOTIFY_API_BASE, '') : null;
+    }
+
+    return playlists;
+  }
+
+  // All items in a playlist, paging 100 at a time. Local files and removed
+  // tracks come back with a null track. With a market (e.g. "from_token" for the
+  // user's own), tracks say whether they're playable there.
+  async getPlaylistTracks(playlistId: string, market?: string): Promise<PlaylistItem[]> {
+    const items: PlaylistItem[] = [];
+    let next: string | null = `/playlists/${playlistId}/tracks?limit=100${market ? `&market=${market}` : ''}`;
+
+    while (next) {
+      const response: { items: PlaylistItem[]; next: string | null } = await this.request(next);
+      items.push(...response.items);
+      next = response.next ? response.next.replace(SPOTIFY_API_BASE, '') : null;
+    }
+
+    return items;
+  }
+
   // Get available genre seeds
   async getAvailableGenres(): Promise<string[]> {
-    const response = await this.request<{ genres: string[] }>('/recommendations/available-genre-seeds');
-    return response.genres;
+    if (!this.availableGenres) {
+      const response = await this.request<{ genres: string[] }>('/recommendations/available-genre-seeds');
+      this.availableGenres = response.genres;
+    }
+    return this.availableGenres;
   }
 
   // Search tracks by year range (for time machine)
-  async searchTracksByYear(year: number, limit = 50): Promise<SpotifyTrack[]> {
-    const response = await this.request<{ tracks: { items: SpotifyTrack[] } }>(
-      `/search?q=year:${year}&type=track&limit=${limit}`
-    );
-    return response.tracks?.items || [];
+  // Pages through results 50 at a time (the API limit), optionally narrowed to a genre
+  async searchTracksByYear(year: number, limit = 50, genre?: string): Promise<SpotifyTrack[]> {
+    const query = encodeURIComponent(genre ? `year:${year} genre:"${genre}"` : `year:${year}`);
+    const tracks: SpotifyTrack[] = [];
+    while (tracks.length < limit) {
+      const pageSize = Math.min(50, limit - tracks.length);
+      const response = await this.request<{ tracks: { items: SpotifyTrack[] } }>(
+        `/search?q=${query}&type=track&limit=${pageSize}&offset=${tracks.length}`
+      );
+      const items = response.tracks?.items || [];
+      tracks.push(...items);
+      if (items.length < pageSize) break;
+    }
+    return tracks;
   }
 
   // Get artist by ID
@@ -253,6 +394,30 @@ class SpotifyClient {
     return this.request<SpotifyArtist>(`/artists/${artistId}`);
   }
 
+  // Get several artists by ID (API limit is 50 at a time)
+  async getArtists(artistIds: string[]): Promise<SpotifyArtist[]> {
+    const artists: SpotifyArtist[] = [];
+    for (let i = 0; i < artistIds.length; i += 50) {
+      const response = await this.request<{ artists: (SpotifyArtist | null)[] }>(
+        `/artists?ids=${artistIds.slice(i, i + 50).join(',')}`
+      );
+      artists.push(...response.artists.filter((a): a is SpotifyArtist => a !== null));
+    }
+    return artists;
+  }
+
+  // Get several tracks by ID (API limit is 50 at a time)
+  async getTracks(trackIds: string[]): Promise<SpotifyTrack[]> {
+    const tracks: SpotifyTrack[] = [];
+    for (let i = 0; i < trackIds.length; i += 50) {
+      const response = await this.request<{ tracks: (SpotifyTrack | null)[] }>(
+        `/tracks?ids=${trackIds.slice(i, i + 50).join(',')}`
+      );
+      tracks.push(...response.tracks.filter((t): t is SpotifyTrack => t !== null));
+    }
+    return tracks;
+  }
+
   // Get artist's top tracks
   async getArtistTopTracks(artistId: string, market = 'US'): Promise<SpotifyTrack[]> {
     const response = await this.request<{ tracks: SpotifyTrack[] }>(
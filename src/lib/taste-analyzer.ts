@@ -1,5 +1,7 @@
 import { spotifyClient } from './spotify-client';
-import { SpotifyTrack, SpotifyArtist, AudioFeatures, TasteProfile } from '../types/spotify';
+import { SpotifyTrack, SpotifyArtist, AudioFeatures, TasteProfile, RangeWeights } from '../types/spotify';
+import { findListeningModes } from './listening-modes';
+import { buildDistributions, formatDistributions } from './distributions';
 import chalk from 'chalk';
 
 export interface AnalysisData {
@@ -17,6 +19,65 @@ export interface AnalysisData {
   audioFeatures: Map<string, AudioFeatures>;
 }
 
+export type TimeRange = 'short' | 'medium' | 'long';
+
+export const TIME_RANGES: TimeRange[] = ['short', 'medium', 'long'];
+
+export const TIME_RANGE_LABELS: Record<TimeRange, string> = {
+  short: 'last 4 weeks',
+  medium: 'last 6 months',
+  long: 'all time'
+};
+
+// Recent listening counts most unless asked otherwise
+export const DEFAULT_RANGE_WEIGHTS: RangeWeights = { short: 3, medium: 2, long: 1, recent: 2.5 };
+
+const RANGE_KEYS: (keyof RangeWeights)[] = ['short', 'medium', 'long', 'recent'];
+
+const RANGE_WEIGHT_LABELS: Record<keyof RangeWeights, string> = {
+  ...TIME_RANGE_LABELS,
+  recent: 'recently played'
+};
+
+// Weights for --range (one time range on its own, or "all" counted equally) and
+// --weights ("short=1,long=3", on top of the range or the defaults)
+export function resolveRangeWeights(range?: string, weights?: string): RangeWeights {
+  let resolved: RangeWeights = { ...DEFAULT_RANGE_WEIGHTS };
+
+  if (range === 'all') {
+    resolved = { short: 1, medium: 1, long: 1, recent: 1 };
+  } else if (range) {
+    if (!TIME_RANGES.includes(range as TimeRange)) {
+      throw new Error(`Invalid range "${range}". Use one of: short, medium, long, all`);
+    }
+    resolved = { short: 0, medium: 0, long: 0, recent: 0, [range]: 1 };
+  }
+
+  if (weights) {
+    for (const part of weights.split(',')) {
+      const [name, value] = part.split('=').map(p => p.trim());
+      const weight = Number(value);
+
+      if (!RANGE_KEYS.includes(name as keyof RangeWeights) || value === undefined || value === '' || isNaN(weight) || weight < 0) {
+        throw new Error(`Invalid range weight "${part}". Use range=weight with one of: ${RANGE_KEYS.join(', ')}`);
+      }
+      resolved[name as keyof RangeWeights] = weight;
+    }
+  }
+
+  if (RANGE_KEYS.every(key => resolved[key] === 0)) {
+    throw new Error('At least one time range needs a weight above 0');
+  }
+  return resolved;
+}
+
+// e.g. "last 4 weeks ×3 · last 6 months ×2 · all time ×1 · recently played ×2.5"
+export function describeRangeWeights(weights: RangeWeights): string {
+  const used = RANGE_KEYS.filter(key => weights[key] > 0);
+  if (used.length === 1) return `${RANGE_WEIGHT_LABELS[used[0]]} only`;
+  return used.map(key => `${RANGE_WEIGHT_LABELS[key]} ×${weights[key]}`).join(' · ');
+}
+
 export async function gatherListeningData(): Promise<AnalysisData> {
   // Fetch all data in parallel where possible
   const [
@@ -71,21 +132,38 @@ export async function gatherListeningData(): Promise<AnalysisData> {
   };
 }
 
-export function buildTasteProfile(data: AnalysisData): TasteProfile {
-  // Weight tracks by time range (recent matters more)
+export function buildTasteProfile(data: AnalysisData, weights: RangeWeights = DEFAULT_RANGE_WEIGHTS): TasteProfile {
+  // Leave out time ranges with no weight altogether, so they don't reach the modes and distributions
+  data = {
+    topTracks: {
+      shortTerm: weights.short > 0 ? data.topTracks.shortTerm : [],
+      mediumTerm: weights.medium > 0 ? data.topTracks.mediumTerm : [],
+      longTerm: weights.long > 0 ? data.topTracks.longTerm : []
+    },
+    topArtists: {
+      shortTerm: weights.short > 0 ? data.topArtists.shortTerm : [],
+      mediumTerm: weights.medium > 0 ? data.topArtists.mediumTerm : [],
+      longTerm: weights.long > 0 ? data.topArtists.longTerm : []
+    },
+    recentlyPlayed: weights.recent > 0 ? data.recentlyPlayed : [],
+    audioFeatures: data.audioFeatures
+  };
+
+  // Weight tracks by time range, higher up each list counting more
+  const rankWeight = (weight: number, i: number) => weight * (50 - i) / 50;
   const weightedTracks: { track: SpotifyTrack; weight: number }[] = [
-    ...data.topTracks.shortTerm.map((t, i) => ({ track: t, weight: 3 * (50 - i) / 50 })),
-    ...data.topTracks.mediumTerm.map((t, i) => ({ track: t, weight: 2 * (50 - i) / 50 })),
-    ...data.topTracks.longTerm.map((t, i) => ({ track: t, weight: 1 * (50 - i) / 50 })),
-    ...data.recentlyPlayed.map((t, i) => ({ track: t, weight: 2.5 * (50 - i) / 50 }))
+    ...data.topTracks.shortTerm.map((t, i) => ({ track: t, weight: rankWeight(weights.short, i) })),
+    ...data.topTracks.mediumTerm.map((t, i) => ({ track: t, weight: rankWeight(weights.medium, i) })),
+    ...data.topTracks.longTerm.map((t, i) => ({ track: t, weight: rankWeight(weights.long, i) })),
+    ...data.recentlyPlayed.map((t, i) => ({ track: t, weight: rankWeight(weights.recent, i) }))
   ];
 
   // Aggregate genres from artists
   const genreCounts = new Map<string, number>();
   const allArtists = [
-    ...data.topArtists.shortTerm.map(a => ({ artist: a, weight: 3 })),
-    ...data.topArtists.mediumTerm.map(a => ({ artist: a, weight: 2 })),
-    ...data.topArtists.longTerm.map(a => ({ artist: a, weight: 1 }))
+    ...data.topArtists.shortTerm.map(a => ({ artist: a, weight: weights.short })),
+    ...data.topArtists.mediumTerm.map(a => ({ artist: a, weight: weights.medium })),
+    ...data.topArtists.longTerm.map(a => ({ artist: a, weight: weights.long }))
   ];
 
   for (const { artist, weight } of allArtists) {
@@ -118,6 +196,8 @@ export function buildTasteProfile(data: AnalysisData): TasteProfile {
   let minorCount = 0;
   let totalPopularity = 0;
   let trackCount = 0;
+  // Each track counts once in the distributions, however many lists it is in
+  const distinctFeatures = new Map<string, AudioFeatures>();
 
   for (const { track, weight } of weightedTracks) {
     const features = data.audioFeatures.get(track.id);
@@ -149,6 +229,7 @@ export function buildTasteProfile(data: AnalysisData): TasteProfile {
 
     totalPopularity += track.popularity;
     trackCount++;
+    distinctFeatures.set(track.id, features);
   }
 
   const avgFeatures = {
@@ -161,9 +242,13 @@ export function buildTasteProfile(data: AnalysisData): TasteProfile {
     loudness: featureSums.loudness / totalWeight
   };
 
-  // Get top artist and track IDs for seeding recommendations
-  const topArtistIds = data.topArtists.shortTerm.slice(0, 10).map(a => a.id);
-  const topTrackIds = data.topTracks.shortTerm.slice(0, 10).map(t => t.id);
+  // Get top artist and track IDs for seeding recommendations, ranked across the weighted time ranges
+  const topArtistIds = rankByWeight([
+    ...data.topArtists.shortTerm.map((a, i) => ({ id: a.id, weight: rankWeight(weights.short, i) })),
+    ...data.topArtists.mediumTerm.map((a, i) => ({ id: a.id, weight: rankWeight(weights.medium, i) })),
+    ...data.topArtists.longTerm.map((a, i) => ({ id: a.id, weight: rankWeight(weights.long, i) }))
+  ]);
+  const topTrackIds = rankByWeight(weightedTracks.map(({ track, weight }) => ({ id: track.id, weight })));
 
   return {
     topGenres,
@@ -181,14 +266,30 @@ export function buildTasteProfile(data: AnalysisData): TasteProfile {
       prefersHighEnergy: avgFeatures.energy > 0.6,
       prefersAcoustic: avgFeatures.acousticness > 0.4,
       avgPopularity: totalPopularity / trackCount
-    }
+    },
+    weights,
+    modes: findListeningModes(data),
+    distributions: buildDistributions([...distinctFeatures.values()])
   };
 }
 
+// The 10 IDs with the highest total weight
+function rankByWeight(items: { id: string; weight: number }[]): string[] {
+  const totals = new Map<string, number>();
+  for (const { id, weight } of items) {
+    totals.set(id, (totals.get(id) || 0) + weight);
+  }
+  return [...totals.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .map(([id]) => id);
+}
+
 export function formatTasteProfile(profile: TasteProfile, data: AnalysisData): string {
   const lines: string[] = [];
   
   lines.push(chalk.bold.cyan('\n🎵 Your Music Taste Profile\n'));
+  lines.push(chalk.dim(`Weighting: ${describeRangeWeights(profile.weights || DEFAULT_RANGE_WEIGHTS)}`));
   lines.push(chalk.dim('─'.repeat(50)));
 
   // Top Genres
@@ -221,6 +322,36 @@ export function formatTasteProfile(profile: TasteProfile, data: AnalysisData): s
     }
   }
 
+  // Distributions - where most of the listening sits, not just the average
+  if (profile.distributions) {
+    lines.push(chalk.bold('\n📈 Distributions') + chalk.dim(' (low → high, p10 · median · p90):'));
+    lines.push(...formatDistributions(profile.distributions));
+  }
+
+  // Listening Modes - only worth showing when the listening splits into several
+  const modes = profile.modes || [];
+  if (modes.length > 1) {
+    const trackNames = new Map(
+      [...data.topTracks.shortTerm, ...data.topTracks.mediumTerm, ...data.topTracks.longTerm, ...data.recentlyPlayed]
+        .map(t => [t.id, `${t.name} - ${t.artists.map(a => a.name).join(', ')}`])
+    );
+
+    lines.push(chalk.bold('\n🧭 Listening Modes:'));
+    for (const mode of modes) {
+      const c = mode.centroid;
+      lines.push(`  ${chalk.cyan(`${mode.id}.`)} ${chalk.bold(mode.name)} ${chalk.dim(`(${Math.round(mode.share * 100)}% of tracks)`)}`);
+      lines.push(chalk.dim(`     energy ${c.energy.toFixed(2)} · mood ${c.valence.toFixed(2)} · dance ${c.danceability.toFixed(2)} · acoustic ${c.acousticness.toFixed(2)} · ${Math.round(c.tempo)} BPM`));
+      if (mode.genres.length > 0) {
+        lines.push(`     ${mode.genres.join(', ')}`);
+      }
+      const examples = mode.trackIds.slice(0, 2).map(id => trackNames.get(id)).filter(Boolean);
+      if (examples.length > 0) {
+        lines.push(chalk.dim(`     e.g. ${examples.join('; ')}`));
+      }
+    }
+    lines.push(chalk.dim('  More from one mode: spotify-gen playlist mode <number>'));
+  }
+
   // Listening Patterns
   lines.push(chalk.bold('\n🔍 Listening Patterns:'));
   const patterns = profile.listeningPatterns;
@@ -230,16 +361,25 @@ export function formatTasteProfile(profile: TasteProfile, data: AnalysisData): s
   lines.push(`  • Average track popularity: ${Math.round(patterns.avgPopularity)}/100 ${getPopularityDesc(patterns.avgPopularity)}`);
 
   // Top Artists
-  lines.push(chalk.bold('\n🎤 Top Artists (Last 4 Weeks):'));
-  for (const artist of data.topArtists.shortTerm.slice(0, 5)) {
-    lines.push(`  • ${artist.name}`);
+  // Top artists and tracks follow the weighting
+  const artists = new Map(
+    [...data.topArtists.shortTerm, ...data.topArtists.mediumTerm, ...data.topArtists.longTerm].map(a => [a.id, a])
+  );
+  const tracks = new Map(
+    [...data.topTracks.shortTerm, ...data.topTracks.mediumTerm, ...data.topTracks.longTerm, ...data.recentlyPlayed].map(t => [t.id, t])
+  );
+
+  lines.push(chalk.bold('\n🎤 Top Artists:'));
+  for (const id of profile.topArtistIds.slice(0, 5)) {
+    const artist = artists.get(id);
+    if (artist) lines.push(`  • ${artist.name}`);
   }
 
   // Top Tracks  
-  lines.push(chalk.bold('\n🎵 Top Tracks (Last 4 Weeks):'));
-  for (const track of data.topTracks.shortTerm.slice(0, 5)) {
-    const artists = track.artists.map(a => a.name).join(', ');
-    lines.push(`  • ${track.name} - ${chalk.dim(artists)}`);
+  lines.push(chalk.bold('\n🎵 Top Tracks:'));
+  for (const id of profile.topTrackIds.slice(0, 5)) {
+    const track = tracks.get(id);
+    if (track) lines.push(`  • ${track.name} - ${chalk.dim(track.artists.map(a => a.name).join(', '))}`);
   }
 
   lines.push(chalk.dim('\n─'.repeat(50)));
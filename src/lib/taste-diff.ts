@@ -0,0 +1,149 @@
+import chalk from 'chalk';
+import { TasteProfile } from '../types/spotify';
+import { AnalysisData, TimeRange, TIME_RANGE_LABELS, resolveRangeWeights, buildTasteProfile } from './taste-analyzer';
+import { TasteSnapshot } from './snapshots';
+
+// One side of a comparison: a saved snapshot, or a profile built from current listening
+export interface TasteSide {
+  label: string;
+  since: string;  // How a change relative to this side reads, e.g. "since March 3"
+  profile: TasteProfile;
+  artists: { id: string; name: string }[];
+}
+
+export interface FeatureChange {
+  feature: string;
+  from: number;
+  to: number;
+  change: number;
+  moved: boolean;
+}
+
+export interface TasteDiff {
+  from: string;
+  to: string;
+  since: string;
+  genresGained: string[];
+  genresLost: string[];
+  artistsEntered: string[];
+  artistsLeft: string[];
+  features: FeatureChange[];
+}
+
+// A genre has to reach the other side's top 10 to count as gained or lost, and drop out of
+// its top 20, so genres hovering around the cut-off don't show up every time
+const GENRE_HEADLINE = 10;
+const GENRE_KEPT = 20;
+
+// Artists compared on each side
+const TOP_ARTISTS = 20;
+
+// Smallest changes worth calling out (features are 0-1, tempo in BPM, popularity 0-100)
+const FEATURES: { feature: string; value: (p: TasteProfile) => number; threshold: number; decimals: number }[] = [
+  { feature: 'danceability', value: p => p.avgFeatures.danceability, threshold: 0.05, decimals: 2 },
+  { feature: 'energy', value: p => p.avgFeatures.energy, threshold: 0.05, decimals: 2 },
+  { feature: 'valence', value: p => p.avgFeatures.valence, threshold: 0.05, decimals: 2 },
+  { feature: 'acousticness', value: p => p.avgFeatures.acousticness, threshold: 0.05, decimals: 2 },
+  { feature: 'instrumentalness', value: p => p.avgFeatures.instrumentalness, threshold: 0.05, decimals: 2 },
+  { feature: 'tempo', value: p => p.avgFeatures.tempo, threshold: 3, decimals: 0 },
+  { feature: 'popularity', value: p => p.listeningPatterns.avgPopularity, threshold: 3, decimals: 0 }
+];
+
+export function snapshotSide(snapshot: TasteSnapshot): TasteSide {
+  const takenAt = new Date(snapshot.takenAt);
+  const date = takenAt.toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: takenAt.getFullYear() === new Date().getFullYear() ? undefined : 'numeric'
+  });
+
+  return {
+    label: `snapshot #${snapshot.id} (${date})`,
+    since: `since ${date}`,
+    profile: snapshot.profile,
+    artists: snapshot.artists
+  };
+}
+
+// Current listening, either as a whole or for one time range
+export function liveSide(data: AnalysisData, range?: TimeRange): TasteSide {
+  if (!range) {
+    return {
+      label: 'now',
+      since: 'vs now',
+      profile: buildTasteProfile(data),
+      artists: data.topArtists.shortTerm.slice(0, TOP_ARTISTS)
+    };
+  }
+
+  const key = `${range}Term` as const;
+  return {
+    label: TIME_RANGE_LABELS[range],
+    since: `vs ${TIME_RANGE_LABELS[range]}`,
+    profile: buildTasteProfile(data, resolveRangeWeights(range)),
+    artists: data.topArtists[key].slice(0, TOP_ARTISTS)
+  };
+}
+
+export function diffTaste(from: TasteSide, to: TasteSide): TasteDiff {
+  const fromGenres = from.profile.topGenres.map(g => g.genre);
+  const toGenres = to.profile.topGenres.map(g => g.genre);
+
+  const fromArtists = new Set(from.artists.map(a => a.id));
+  const toArtists = new Set(to.artists.map(a => a.id));
+
+  return {
+    from: from.label,
+    to: to.label,
+    since: from.since,
+    genresGained: toGenres.slice(0, GENRE_HEADLINE).filter(g => !fromGenres.slice(0, GENRE_KEPT).includes(g)),
+    genresLost: fromGenres.slice(0, GENRE_HEADLINE).filter(g => !toGenres.slice(0, GENRE_KEPT).includes(g)),
+    artistsEntered: to.artists.filter(a => !fromArtists.has(a.id)).map(a => a.name),
+    artistsLeft: from.artists.filter(a => !toArtists.has(a.id)).map(a => a.name),
+    features: FEATURES.map(({ feature, value, threshold }) => {
+      const before = value(from.profile);
+      const after = value(to.profile);
+      return { feature, from: before, to: after, change: after - before, moved: Math.abs(after - before) >= threshold };
+    })
+  };
+}
+
+export function formatTasteDiff(diff: TasteDiff): string {
+  const lines: string[] = [];
+
+  lines.push(chalk.bold.cyan(`\n📈 Taste Drift: ${diff.from} → ${diff.to}\n`));
+  lines.push(chalk.dim('─'.repeat(50)));
+
+  lines.push(chalk.bold('\n📊 Genres:'));
+  lines.push(formatChanges('+', diff.genresGained, chalk.green, 'No new genres'));
+  lines.push(formatChanges('-', diff.genresLost, chalk.red, 'No genres dropped out'));
+
+  lines.push(chalk.bold('\n🎤 Top Artists:'));
+  lines.push(formatChanges('+', diff.artistsEntered, chalk.green, 'Nobody new'));
+  lines.push(formatChanges('-', diff.artistsLeft, chalk.red, 'Nobody left'));
+
+  lines.push(chalk.bold('\n🎚️ Audio Profile:'));
+  for (const change of diff.features) {
+    const { decimals } = FEATURES.find(f => f.feature === change.feature)!;
+    const label = change.feature.padEnd(17);
+    const values = `${change.from.toFixed(decimals)} → ${change.to.toFixed(decimals)}`;
+
+    if (change.moved) {
+      const sign = change.change > 0 ? '+' : '';
+      const color = change.change > 0 ? chalk.green : chalk.red;
+      lines.push(`  ${label}${values}  ${color(`${change.feature} ${sign}${change.change.toFixed(decimals)}`)} ${chalk.dim(diff.since)}`);
+    } else {
+      lines.push(chalk.dim(`  ${label}${values}  steady`));
+    }
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+function formatChanges(sign: string, items: string[], color: chalk.Chalk, none: string): string {
+  if (items.length === 0) return chalk.dim(`  ${sign} ${none}`);
+  const shown = items.slice(0, 10).join(', ');
+  const more = items.length > 10 ? chalk.dim(` and ${items.length - 10} more`) : '';
+  return `  ${color(sign)} ${shown}${more}`;
+}
@@ -0,0 +1,208 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { getConfigDir } from './config';
+import { RecommendationParams } from '../types/spotify';
+
+// Looked up in this order in the config directory
+const PRESET_FILES = ['presets.json', 'presets.yaml', 'presets.yml'];
+
+const SECTIONS = { moods: 'mood', activities: 'activity', times: 'time' } as const;
+const PRESET_KEYS = ['description', 'targets', 'popularity', 'genres', 'tracks', 'duration'];
+const UNIT_FEATURES = ['danceability', 'energy', 'valence', 'acousticness', 'instrumentalness'];
+
+type TargetKey = Extract<keyof RecommendationParams, `target_${string}`>;
+
+export type PresetKind = typeof SECTIONS[keyof typeof SECTIONS];
+
+export interface PresetDefinition {
+  description?: string;
+  params: Partial<RecommendationParams>;
+  trackCount?: number;
+  duration?: number;  // minutes
+}
+
+export type UserPresets = Record<PresetKind, Record<string, PresetDefinition>>;
+
+let cached: UserPresets | undefined;
+
+export function getPresetFilePath(): string | null {
+  const dir = getConfigDir();
+  const found = PRESET_FILES.map(f => path.join(dir, f)).find(f => fs.existsSync(f));
+  return found || null;
+}
+
+// Load and validate the user's presets file (empty if there isn't one).
+// Throws with every problem found, each prefixed by where it is in the file.
+export function loadUserPresets(): UserPresets {
+  if (cached) return cached;
+
+  const file = getPresetFilePath();
+  const presets: UserPresets = { mood: {}, activity: {}, time: {} };
+
+  if (file) {
+    let raw: unknown;
+    try {
+      const text = fs.readFileSync(file, 'utf8');
+      raw = file.endsWith('.json') ? JSON.parse(text) : YAML.parse(text);
+    } catch (err: any) {
+      throw new Error(`Could not parse ${file}: ${err.message}`);
+    }
+
+    const errors = validatePresetFile(raw, presets);
+    if (errors.length > 0) {
+      throw new Error(`Invalid presets file ${file}:\n${errors.map(e => `  • ${e}`).join('\n')}`);
+    }
+  }
+
+  cached = presets;
+  return presets;
+}
+
+// Validate the parsed file, filling `presets` with what was read. Returns the errors found.
+function validatePresetFile(raw: unknown, presets: UserPresets): string[] {
+  const errors: string[] = [];
+
+  if (raw === null || raw === undefined) return errors;
+  if (!isObject(raw)) {
+    return ['The file must contain an object with "moods", "activities" and/or "times"'];
+  }
+
+  for (const [section, sectionValue] of Object.entries(raw)) {
+    if (!(section in SECTIONS)) {
+      errors.push(`Unknown section "${section}" (expected: ${Object.keys(SECTIONS).join(', ')})`);
+      continue;
+    }
+    if (!isObject(sectionValue)) {
+      errors.push(`${section}: must be an object of named presets`);
+      continue;
+    }
+
+    const kind = SECTIONS[section as keyof typeof SECTIONS];
+    for (const [name, value] of Object.entries(sectionValue)) {
+      const where = `${section}.${name}`;
+      if (!/^[a-z0-9][a-z0-9-]*$/.test(name)) {
+        errors.push(`${where}: preset names may only use lowercase letters, digits and dashes`);
+        continue;
+      }
+
+      const preset = validatePreset(where, value, errors);
+      if (preset) {
+        presets[kind][name] = preset;
+      }
+    }
+  }
+
+  return errors;
+}
+
+function validatePreset(where: string, value: unknown, errors: string[]): PresetDefinition | null {
+  if (!isObject(value)) {
+    errors.push(`${where}: must be an object`);
+    return null;
+  }
+
+  const startErrors = errors.length;
+  const params: Partial<RecommendationParams> = {};
+  const preset: PresetDefinition = { params };
+
+  for (const key of Object.keys(value)) {
+    if (!PRESET_KEYS.includes(key)) {
+      errors.push(`${where}.${key}: unknown setting (expected: ${PRESET_KEYS.join(', ')})`);
+    }
+  }
+
+  if (value.description !== undefined) {
+    if (typeof value.description !== 'string') {
+      errors.push(`${where}.description: must be a string`);
+    } else {
+      preset.description = value.description;
+    }
+  }
+
+  if (value.targets !== undefined) {
+    if (!isObject(value.targets)) {
+      errors.push(`${where}.targets: must be an object like { energy: 0.8, tempo: 120 }`);
+    } else {
+      for (const [feature, target] of Object.entries(value.targets)) {
+        const key = `target_${feature}` as TargetKey;
+        if (feature === 'tempo') {
+          if (!isNumberIn(target, 40, 250)) {
+            errors.push(`${where}.targets.tempo: must be a number of BPM between 40 and 250`);
+          } else {
+            params[key] = target;
+          }
+        } else if (UNIT_FEATURES.includes(feature)) {
+          if (!isNumberIn(target, 0, 1)) {
+            errors.push(`${where}.targets.${feature}: must be a number between 0 and 1`);
+          } else {
+            params[key] = target;
+          }
+        } else {
+          errors.push(`${where}.targets.${feature}: unknown feature (expected: ${[...UNIT_FEATURES, 'tempo'].join(', ')})`);
+        }
+      }
+    }
+  }
+
+  if (value.popularity !== undefined) {
+    const popularity = value.popularity;
+    if (!isObject(popularity)) {
+      errors.push(`${where}.popularity: must be an object like { min: 20, max: 60 }`);
+    } else {
+      for (const bound of Object.keys(popularity)) {
+        if (bound !== 'min' && bound !== 'max') {
+          errors.push(`${where}.popularity.${bound}: unknown bound (expected: min, max)`);
+        } else if (!isNumberIn(popularity[bound], 0, 100) || !Number.isInteger(popularity[bound])) {
+          errors.push(`${where}.popularity.${bound}: must be a whole number between 0 and 100`);
+        }
+      }
+      if (typeof popularity.min === 'number' && typeof popularity.max === 'number' && popularity.min > popularity.max) {
+        errors.push(`${where}.popularity: min (${popularity.min}) is greater than max (${popularity.max})`);
+      }
+      if (typeof popularity.min === 'number') params.min_popularity = popularity.min;
+      if (typeof popularity.max === 'number') params.max_popularity = popularity.max;
+    }
+  }
+
+  if (value.genres !== undefined) {
+    const genres = value.genres;
+    if (!Array.isArray(genres) || genres.some(g => typeof g !== 'string' || g.trim() === '')) {
+      errors.push(`${where}.genres: must be a list of genre names`);
+    } else if (genres.length > 5) {
+      errors.push(`${where}.genres: Spotify accepts at most 5 seed genres (got ${genres.length})`);
+    } else {
+      params.seed_genres = genres.map(g => g.trim().toLowerCase());
+    }
+  }
+
+  if (value.tracks !== undefined) {
+    if (!isNumberIn(value.tracks, 1, 100) || !Number.isInteger(value.tracks)) {
+      errors.push(`${where}.tracks: must be a whole number between 1 and 100`);
+    } else {
+      preset.trackCount = value.tracks;
+    }
+  }
+
+  if (value.duration !== undefined) {
+    if (!isNumberIn(value.duration, 1, 600)) {
+      errors.push(`${where}.duration: must be a number of minutes between 1 and 600`);
+    } else {
+      preset.duration = value.duration;
+    }
+  }
+
+  if (value.tracks !== undefined && value.duration !== undefined) {
+    errors.push(`${where}: set either tracks or duration, not both`);
+  }
+
+  return errors.length === startErrors ? preset : null;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumberIn(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && !isNaN(value) && value >= min && value <= max;
+}
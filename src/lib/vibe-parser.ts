@@ -0,0 +1,535 @@
+import { AudioFeatures, RecommendationParams, VibeFeature, VibeIntent, VibeTarget, WeightedIntent } from '../types/spotify';
+import { getPreset } from './presets';
+
+type FeatureValues = Partial<Record<VibeFeature, number>>;
+
+// What a word or phrase in a vibe means
+interface Term {
+  features?: FeatureValues;
+  popularity?: 'low' | 'high';
+  genre?: string;
+  // Situations ("gym", "late night") imply a sound more weakly than a direct description;
+  // they either borrow a preset's targets or bring their own
+  preset?: Pick<WeightedIntent, 'kind' | 'name'>;
+  situation?: boolean;
+}
+
+const VIBE_FEATURES: VibeFeature[] = ['energy', 'valence', 'danceability', 'acousticness', 'instrumentalness', 'tempo'];
+
+// How sure the parser is about each kind of match
+const WORD_CONFIDENCE = 0.9;
+const CONTEXT_CONFIDENCE = 0.5;
+const GENRE_CONFIDENCE = 0.9;
+const GENRE_HINT_CONFIDENCE = 0.6;  // A descriptor that also suggests a genre ("folky")
+const NEGATED_CONFIDENCE = 0.6;     // Multiplier: "not sad" says less than "happy"
+const MIN_CONFIDENCE = 0.35;        // Below this a value isn't sent to Spotify
+
+// "not sad" lands this far past neutral on the other side
+const NEGATION_STRENGTH = 0.4;
+// "like X but more upbeat" moves a feature this far from the reference
+const COMPARATIVE_STEP = 0.15;
+const TEMPO_COMPARATIVE_STEP = 15;
+const NEUTRAL_TEMPO = 110;
+
+const POPULARITY_BOUNDS = { low: { max: 40 }, high: { min: 60 } };
+
+const INTENSIFIERS: Record<string, number> = {
+  'very': 1.4, 'really': 1.4, 'so': 1.3, 'super': 1.6, 'extremely': 1.8, 'incredibly': 1.8,
+  'insanely': 1.8, 'ultra': 1.8, 'quite': 1.2, 'pretty': 1.15,
+  'slightly': 0.5, 'a little': 0.5, 'a little bit': 0.5, 'a bit': 0.5, 'a tiny bit': 0.35,
+  'somewhat': 0.6, 'kind of': 0.6, 'kinda': 0.6, 'sort of': 0.6, 'mildly': 0.5, 'lightly': 0.5
+};
+
+const NEGATIONS = ['not', 'no', 'non', 'never', 'without', "isn't", "aren't", "don't", 'dont', 'nothing'];
+const COMPARATORS: Record<string, number> = { 'more': 1, 'less': -1 };
+
+// Words that end the reach of a pending "not"/"very"/"more"
+const BOUNDARIES = [',', '.', ';', '!', '?', 'but', 'though', 'although', 'yet', 'while'];
+// How many unrecognised words a modifier can skip ("not too fast", "very much chill")
+const MODIFIER_REACH = 3;
+
+const TERMS: Record<string, Term> = {};
+
+function define(words: string[], term: Term): void {
+  for (const word of words) {
+    TERMS[word] = term;
+  }
+}
+
+// Energy
+define(['hype', 'hyped', 'pumped', 'pumping', 'intense', 'powerful', 'explosive', 'wild', 'banging'], { features: { energy: 0.9 } });
+define(['heavy', 'loud'], { features: { energy: 0.85, acousticness: 0.15 } });
+define(['energetic', 'upbeat', 'lively', 'dynamic', 'bouncy', 'peppy'], { features: { energy: 0.75 } });
+define(['chill', 'chilled', 'relaxed', 'relaxing', 'mellow', 'calm', 'peaceful', 'soft', 'gentle', 'laid back', 'laid-back', 'cozy', 'cosy'], { features: { energy: 0.3 } });
+define(['quiet'], { features: { energy: 0.2 } });
+define(['dreamy', 'floating', 'ethereal', 'atmospheric'], { features: { energy: 0.2 } });
+define(['ambient'], { features: { energy: 0.2 }, genre: 'ambient' });
+
+// Mood
+define(['happy', 'joyful', 'joy', 'euphoric', 'cheerful', 'bright', 'sunny', 'feel good', 'feel-good', 'uplifting', 'positive'], { features: { valence: 0.8 } });
+define(['sad', 'melancholy', 'melancholic', 'depressing', 'depressed', 'lonely', 'heartbreak', 'heartbroken', 'gloomy', 'moody', 'dark', 'somber', 'sombre'], { features: { valence: 0.2 } });
+define(['angry', 'rage', 'furious', 'aggressive', 'angsty'], { features: { valence: 0.2, energy: 0.9 } });
+define(['romantic', 'love', 'sensual', 'intimate', 'sexy'], { features: { valence: 0.6, energy: 0.4 } });
+
+// Movement
+define(['dance', 'dancey', 'dancy', 'danceable', 'dancing', 'groove', 'groovy'], { features: { danceability: 0.85 } });
+define(['funky'], { features: { danceability: 0.85 }, genre: 'funk' });
+define(['disco'], { features: { danceability: 0.85 }, genre: 'disco' });
+define(['sway', 'swaying', 'bob', 'movement'], { features: { danceability: 0.65 } });
+
+// Texture
+define(['acoustic', 'unplugged', 'organic'], { features: { acousticness: 0.8 } });
+define(['folk', 'folky'], { features: { acousticness: 0.8 }, genre: 'folk' });
+define(['synth', 'synthy', 'synthetic'], { features: { acousticness: 0.1 } });
+define(['electronic'], { features: { acousticness: 0.1 }, genre: 'electronic' });
+define(['techno'], { features: { acousticness: 0.1 }, genre: 'techno' });
+define(['house'], { features: { acousticness: 0.1 }, genre: 'house' });
+define(['edm'], { features: { acousticness: 0.1 }, genre: 'edm' });
+define(['lo-fi', 'lofi'], { features: { energy: 0.35 }, genre: 'chill' });
+define(['instrumental', 'instrumentals', 'no vocals', 'without words', 'no lyrics'], { features: { instrumentalness: 0.8 } });
+define(['background'], { features: { instrumentalness: 0.7 } });
+define(['vocals', 'vocal', 'singing', 'sung', 'lyrics', 'lyrical'], { features: { instrumentalness: 0.05 } });
+
+// Tempo
+define(['fast', 'quick', 'rapid', 'racing', 'speedy'], { features: { tempo: 140 } });
+define(['slow', 'slowed'], { features: { tempo: 80 } });
+
+// Popularity
+define(['underground', 'obscure', 'hidden gems', 'hidden gem', 'deep cuts', 'niche', 'lesser known', 'lesser-known', 'unknown'], { popularity: 'low' });
+define(['popular', 'mainstream', 'hits', 'chart', 'charting', 'top 40', 'famous', 'well known', 'well-known'], { popularity: 'high' });
+
+// Situations
+define(['workout', 'gym', 'running', 'exercise', 'training', 'lifting'], { preset: { kind: 'activity', name: 'workout' } });
+define(['study', 'studying', 'focus', 'concentrate', 'concentration', 'work', 'working', 'productivity', 'coding'], { preset: { kind: 'activity', name: 'focus' } });
+define(['party', 'club', 'pregame'], { preset: { kind: 'activity', name: 'party' } });
+define(['sleep', 'sleeping', 'bedtime', 'rest', 'wind down'], { preset: { kind: 'activity', name: 'sleep' } });
+define(['commute', 'commuting'], { preset: { kind: 'activity', name: 'commute' } });
+define(['cooking', 'dinner'], { preset: { kind: 'activity', name: 'cooking' } });
+define(['morning', 'sunrise', 'wake up', 'breakfast'], { preset: { kind: 'time', name: 'morning' } });
+define(['afternoon'], { preset: { kind: 'time', name: 'afternoon' } });
+define(['sunset', 'golden hour', 'evening'], { preset: { kind: 'time', name: 'evening' } });
+define(['late night', 'midnight', '2am', '3am', 'after hours'], { features: { energy: 0.45, valence: 0.4, instrumentalness: 0.4 }, situation: true });
+define(['road trip', 'driving', 'drive'], { features: { energy: 0.7, valence: 0.7, danceability: 0.6 }, situation: true });
+define(['coffee', 'cafe', 'coffee shop'], { features: { energy: 0.4, acousticness: 0.6, instrumentalness: 0.4 }, situation: true });
+
+// Genre names mapped to Spotify's seed genres
+const GENRES: Record<string, string> = {
+  'afrobeat': 'afrobeat', 'alternative': 'alternative', 'alt rock': 'alt-rock', 'alt-rock': 'alt-rock',
+  'blues': 'blues', 'bossa nova': 'bossanova', 'bossanova': 'bossanova', 'classical': 'classical',
+  'country': 'country', 'deep house': 'deep-house', 'drum and bass': 'drum-and-bass',
+  'drum & bass': 'drum-and-bass', 'drum-and-bass': 'drum-and-bass', 'dnb': 'drum-and-bass',
+  'dubstep': 'dubstep', 'electro': 'electro', 'emo': 'emo', 'garage': 'garage', 'gospel': 'gospel',
+  'goth': 'goth', 'grunge': 'grunge', 'hardcore': 'hardcore', 'hard rock': 'hard-rock',
+  'heavy metal': 'heavy-metal', 'hip hop': 'hip-hop', 'hip-hop': 'hip-hop', 'hiphop': 'hip-hop',
+  'rap': 'hip-hop', 'indie': 'indie', 'indie pop': 'indie-pop', 'indie-pop': 'indie-pop',
+  'jazz': 'jazz', 'jazzy': 'jazz', 'j-pop': 'j-pop', 'jpop': 'j-pop', 'k-pop': 'k-pop', 'kpop': 'k-pop',
+  'latin': 'latin', 'metal': 'metal', 'new age': 'new-age', 'opera': 'opera', 'piano': 'piano',
+  'pop': 'pop', 'punk': 'punk', 'punk rock': 'punk-rock', 'r&b': 'r-n-b', 'rnb': 'r-n-b',
+  'reggae': 'reggae', 'reggaeton': 'reggaeton', 'rock': 'rock', 'rock and roll': 'rock-n-roll',
+  'rock n roll': 'rock-n-roll', 'salsa': 'salsa', 'samba': 'samba',
+  'singer-songwriter': 'singer-songwriter', 'ska': 'ska', 'soul': 'soul', 'soulful': 'soul',
+  'synthpop': 'synth-pop', 'synth pop': 'synth-pop', 'synth-pop': 'synth-pop', 'trance': 'trance',
+  'trip hop': 'trip-hop', 'trip-hop': 'trip-hop', 'world music': 'world-music'
+};
+
+// "happier" means "more happy"
+const COMPARATIVE_FORMS: Record<string, string> = {
+  'happier': 'happy', 'sadder': 'sad', 'faster': 'fast', 'slower': 'slow', 'calmer': 'calm',
+  'softer': 'soft', 'darker': 'dark', 'brighter': 'bright', 'heavier': 'heavy', 'louder': 'loud',
+  'quieter': 'quiet', 'chiller': 'chill', 'groovier': 'groovy', 'moodier': 'moody',
+  'livelier': 'lively', 'mellower': 'mellow', 'dreamier': 'dreamy', 'funkier': 'funky'
+};
+
+const DECADE_WORDS: Record<string, number> = {
+  'fifties': 1950, 'sixties': 1960, 'seventies': 1970, 'eighties': 1980, 'nineties': 1990,
+  'noughties': 2000, 'aughts': 2000
+};
+
+// Words after "like" that mean "something like", not an artist name (when written in lowercase)
+const NOT_A_NAME = ['a', 'an', 'some', 'something', 'anything', 'it', 'that', 'this', 'music', 'songs', 'to', 'when', 'if', 'i', 'you', 'we'];
+
+// Words that can sit between vibe words without making them a name ("chill and mellow music")
+const FILLER_WORDS = ['and', 'or', 'but', 'of', 'the', 'music', 'songs', 'tunes', 'stuff', 'vibes', 'vibe', 'sound', 'sounds'];
+
+const LONGEST_PHRASE = 4;
+
+interface Contribution {
+  value: number;
+  confidence: number;
+  source: string;
+  fromContext: boolean;
+}
+
+interface Modifiers {
+  negated: boolean;
+  intensity: number;
+  comparative: number;  // +1 "more", -1 "less", 0 neither
+  words: string[];
+  skipped: number;
+}
+
+// Parse a natural language vibe ("not sad, a little bit dancey, like Bonobo but more upbeat")
+// into feature targets with a confidence for each, genre seeds, a reference artist/track and years
+export function parseVibe(vibe: string): VibeIntent {
+  const intent: VibeIntent = { targets: {}, genres: [] };
+  const contributions: Partial<Record<VibeFeature, Contribution[]>> = {};
+
+  const { reference, rest } = extractReference(vibe);
+  if (reference) {
+    intent.reference = { ...reference, adjustments: {} };
+  }
+
+  const tokens = tokenize(rest);
+  const years: number[] = [];
+  let mods = freshModifiers();
+
+  const contribute = (feature: VibeFeature, value: number, confidence: number, source: string, fromContext: boolean) => {
+    (contributions[feature] = contributions[feature] || []).push({ value, confidence, source, fromContext });
+  };
+
+  for (let i = 0; i < tokens.length;) {
+    const token = tokens[i];
+
+    if (BOUNDARIES.includes(token)) {
+      mods = freshModifiers();
+      i++;
+      continue;
+    }
+
+    const yearMatch = matchYears(tokens, i);
+    if (yearMatch) {
+      years.push(...yearMatch.years);
+      i += yearMatch.length;
+      continue;
+    }
+
+    const phrase = matchPhrase(tokens, i);
+    if (!phrase) {
+      // Unknown words don't cancel a pending modifier unless there are too many of them
+      if (++mods.skipped > MODIFIER_REACH) mods = freshModifiers();
+      i++;
+      continue;
+    }
+    i += phrase.length;
+    const text = phrase.text;
+
+    if (NEGATIONS.includes(text)) {
+      mods.negated = true;
+      mods.words.push(text);
+      mods.skipped = 0;
+      continue;
+    }
+    if (INTENSIFIERS[text] !== undefined) {
+      mods.intensity *= INTENSIFIERS[text];
+      mods.words.push(text);
+      mods.skipped = 0;
+      continue;
+    }
+    if (COMPARATORS[text] !== undefined) {
+      mods.comparative = COMPARATORS[text];
+      mods.words.push(text);
+      mods.skipped = 0;
+      continue;
+    }
+
+    const term = phrase.term;
+    const source = [...mods.words, text].join(' ');
+    const comparative = COMPARATIVE_FORMS[text] ? 1 : mods.comparative;
+
+    if (term.genre && !mods.negated && comparative >= 0) {
+      const hint = term.features !== undefined;
+      addGenre(intent, term.genre, hint ? GENRE_HINT_CONFIDENCE : GENRE_CONFIDENCE, source);
+    }
+
+    if (term.popularity) {
+      applyPopularity(intent, term.popularity, mods.negated || comparative < 0, source);
+    }
+
+    const contextual = term.preset !== undefined || term.situation === true;
+    const features = term.preset ? presetFeatures(term.preset) : term.features;
+    for (const [feature, base] of Object.entries(features || {}) as [VibeFeature, number][]) {
+      const mid = feature === 'tempo' ? NEUTRAL_TEMPO : 0.5;
+      const direction = Math.sign(base - mid);
+      let confidence = contextual ? CONTEXT_CONFIDENCE : WORD_CONFIDENCE;
+
+      // "like Bonobo but more upbeat": a step away from the reference, resolved later
+      if (comparative !== 0 && intent.reference) {
+        const step = feature === 'tempo' ? TEMPO_COMPARATIVE_STEP : COMPARATIVE_STEP;
+        const adjustments = intent.reference.adjustments;
+        adjustments[feature] = (adjustments[feature] || 0) + comparative * direction * step * mods.intensity;
+        continue;
+      }
+
+      let value: number;
+      if (mods.negated || comparative < 0) {
+        // "not sad" / "less sad": a little past neutral on the other side
+        value = mid - (base - mid) * NEGATION_STRENGTH;
+        confidence *= NEGATED_CONFIDENCE;
+      } else {
+        // "very chill" pushes further from neutral, "slightly chill" less far; "more chill" a bit further
+        const intensity = mods.intensity * (comparative > 0 ? 1.2 : 1);
+        value = mid + (base - mid) * intensity;
+      }
+
+      contribute(feature, clampFeature(feature, value), confidence, source, contextual);
+    }
+
+    // "not sad or angry" negates both
+    const carryNegation = mods.negated && (tokens[i] === 'or' || tokens[i] === 'nor');
+    mods = freshModifiers();
+    mods.negated = carryNegation;
+  }
+
+  for (const feature of VIBE_FEATURES) {
+    const target = combine(contributions[feature] || []);
+    if (target) intent.targets[feature] = target;
+  }
+
+  if (years.length > 0) {
+    intent.years = { from: Math.min(...years), to: Math.max(...years) };
+  }
+
+  return intent;
+}
+
+// Turn a parsed vibe into recommendation parameters. `referenceFeatures` are the average
+// features of the artist/track the vibe compares itself to, when it does.
+export function vibeToParams(intent: VibeIntent, referenceFeatures?: FeatureValues): Partial<RecommendationParams> {
+  const params: Record<string, unknown> = {};
+
+  for (const [feature, target] of Object.entries(intent.targets) as [VibeFeature, VibeTarget][]) {
+    if (target.confidence >= MIN_CONFIDENCE) {
+      params[`target_${feature}`] = target.value;
+    }
+  }
+
+  if (intent.reference && referenceFeatures) {
+    for (const [feature, delta] of Object.entries(intent.reference.adjustments) as [VibeFeature, number][]) {
+      const base = referenceFeatures[feature];
+      if (base !== undefined) {
+        params[`target_${feature}`] = clampFeature(feature, base + delta);
+      }
+    }
+  }
+
+  if (intent.popularity && intent.popularity.confidence >= MIN_CONFIDENCE) {
+    if (intent.popularity.min !== undefined) params.min_popularity = intent.popularity.min;
+    if (intent.popularity.max !== undefined) params.max_popularity = intent.popularity.max;
+  }
+
+  const genres = intent.genres.filter(g => g.confidence >= MIN_CONFIDENCE).map(g => g.genre);
+  if (genres.length > 0) {
+    params.seed_genres = genres.slice(0, 5);
+  }
+
+  return params as Partial<RecommendationParams>;
+}
+
+// Average features of a set of tracks, e.g. an artist's top tracks
+export function averageFeatures(features: AudioFeatures[]): FeatureValues {
+  if (features.length === 0) return {};
+
+  const average: FeatureValues = {};
+  for (const feature of VIBE_FEATURES) {
+    average[feature] = features.reduce((sum, f) => sum + f[feature], 0) / features.length;
+  }
+  return average;
+}
+
+// Pull out "like <artist>", "similar to <artist>" or "like <track> by <artist>"
+function extractReference(vibe: string): { reference?: { type: 'artist' | 'track'; name: string }; rest: string } {
+  const match = vibe.match(/\b(?:sounds? like|similar to|in the style of|like)\s+/i);
+  if (!match || match.index === undefined) {
+    return { rest: vibe };
+  }
+
+  const tail = vibe.slice(match.index + match[0].length);
+  const raw = tail.match(/^["“][^"”]+["”](?:\s+by\s+[^,.;!?]+)?/i) || tail.match(/^[^,.;!?]+/);
+  if (!raw) {
+    return { rest: vibe };
+  }
+
+  const consumed = cutAtBoundary(raw[0]);
+  let name = consumed.replace(/["“”]/g, '');
+
+  const isTrack = /\sby\s/i.test(name) || /^(the )?(song|track)\s/i.test(name);
+  name = name.replace(/^(the )?(song|track)\s+/i, '');
+
+  // "I'd like something chill" isn't a comparison, but "like The Beatles" and "like Chill Bump" are
+  if (!/^["“]/.test(consumed) && !isName(name)) {
+    return { rest: vibe };
+  }
+
+  return {
+    reference: { type: isTrack ? 'track' : 'artist', name },
+    rest: `${vibe.slice(0, match.index)} , ${tail.slice(consumed.length)}`
+  };
+}
+
+// Lowercase filler ("something", "a") or vibe words ("chill") aren't a name, and neither
+// is a phrase made only of vibe words; capitalised words that happen to be vibe words are
+function isName(text: string): boolean {
+  const firstWord = text.split(/\s+/)[0];
+  const lowercase = text === text.toLowerCase();
+  const tokens = tokenize(text);
+
+  if (tokens.length === 0) return false;
+  if (NOT_A_NAME.includes(firstWord) || (lowercase && matchPhrase(tokens, 0))) return false;
+
+  for (let i = 0; i < tokens.length;) {
+    const phrase = matchPhrase(tokens, i);
+    if (phrase) {
+      i += phrase.length;
+    } else if (FILLER_WORDS.includes(tokens[i])) {
+      i++;
+    } else {
+      return true;
+    }
+  }
+  return false;
+}
+
+// A name runs until a word that starts the next part of the vibe
+function cutAtBoundary(text: string): string {
+  return text.split(/\s+(?:but|with|except|only|yet|though|from|for|and more|and less|plus|in the \d)/i)[0].trim();
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().replace(/[’‘]/g, "'").match(/[a-z0-9&'-]+|[,.;!?]/g) || [])
+    .map(t => (/^[,.;!?]$/.test(t) ? t : t.replace(/^['-]+|['-]+$/g, '')))
+    .filter(t => t.length > 0);
+}
+
+// The longest known phrase starting at tokens[start]
+function matchPhrase(tokens: string[], start: number): { text: string; term: Term; length: number } | null {
+  for (let length = Math.min(LONGEST_PHRASE, tokens.length - start); length > 0; length--) {
+    const text = tokens.slice(start, start + length).join(' ');
+
+    // Modifiers are plain words; longer phrases are tried first so "no vocals" wins over "no"
+    if (NEGATIONS.includes(text) || INTENSIFIERS[text] !== undefined || COMPARATORS[text] !== undefined) {
+      return { text, term: {}, length };
+    }
+    if (TERMS[text]) {
+      return { text, term: TERMS[text], length };
+    }
+    if (GENRES[text]) {
+      return { text, term: { genre: GENRES[text] }, length };
+    }
+    if (COMPARATIVE_FORMS[text]) {
+      return { text, term: TERMS[COMPARATIVE_FORMS[text]], length };
+    }
+    if (length === 1 && isPresetName(text)) {
+      return { text, term: { preset: presetFor(text)! }, length };
+    }
+  }
+  return null;
+}
+
+// "90s", "1990s", "'90s", "early 2000s", "nineties", "2010", "2005-2010"
+function matchYears(tokens: string[], start: number): { years: number[]; length: number } | null {
+  const token = tokens[start];
+  const part = ['early', 'mid', 'late'].includes(token) ? token : null;
+  const decade = parseDecade(part ? tokens[start + 1] : token);
+
+  if (decade !== null) {
+    if (part === 'early') return { years: [decade, decade + 3], length: 2 };
+    if (part === 'mid') return { years: [decade + 4, decade + 6], length: 2 };
+    if (part === 'late') return { years: [decade + 7, decade + 9], length: 2 };
+    return { years: [decade, decade + 9], length: 1 };
+  }
+
+  const range = token.match(/^((?:19|20)\d\d)-((?:19|20)\d\d)$/);
+  if (range) {
+    return { years: [parseInt(range[1]), parseInt(range[2])], length: 1 };
+  }
+  if (/^(19|20)\d\d$/.test(token)) {
+    return { years: [parseInt(token)], length: 1 };
+  }
+  return null;
+}
+
+function parseDecade(token: string | undefined): number | null {
+  if (!token) return null;
+  if (DECADE_WORDS[token]) return DECADE_WORDS[token];
+
+  const full = token.match(/^((?:19|20)\d0)s$/);
+  if (full) return parseInt(full[1]);
+
+  const short = token.match(/^(\d)0s$/);
+  if (short) {
+    const tens = parseInt(short[1]) * 10;
+    return tens >= 30 ? 1900 + tens : 2000 + tens;
+  }
+  return null;
+}
+
+function freshModifiers(): Modifiers {
+  return { negated: false, intensity: 1, comparative: 0, words: [], skipped: 0 };
+}
+
+function addGenre(intent: VibeIntent, genre: string, confidence: number, source: string): void {
+  const existing = intent.genres.find(g => g.genre === genre);
+  if (existing) {
+    existing.confidence = Math.max(existing.confidence, confidence);
+  } else {
+    intent.genres.push({ genre, confidence, source });
+  }
+}
+
+// "underground" caps popularity, "mainstream" sets a floor; negated they loosen to the middle
+function applyPopularity(intent: VibeIntent, level: 'low' | 'high', negated: boolean, source: string): void {
+  if (negated) {
+    intent.popularity = level === 'low'
+      ? { min: 50, confidence: WORD_CONFIDENCE * NEGATED_CONFIDENCE, source }
+      : { max: 50, confidence: WORD_CONFIDENCE * NEGATED_CONFIDENCE, source };
+  } else {
+    intent.popularity = { ...POPULARITY_BOUNDS[level], confidence: WORD_CONFIDENCE, source };
+  }
+}
+
+// Direct descriptions override what a situation implies; several descriptions of the
+// same feature are averaged by confidence
+function combine(contributions: Contribution[]): VibeTarget | null {
+  if (contributions.length === 0) return null;
+
+  const direct = contributions.filter(c => !c.fromContext);
+  const used = direct.length > 0 ? direct : contributions;
+  const totalConfidence = used.reduce((sum, c) => sum + c.confidence, 0);
+
+  const value = used.reduce((sum, c) => sum + c.value * c.confidence, 0) / totalConfidence;
+
+  return {
+    value: Math.round(value * 1000) / 1000,
+    confidence: Math.round(Math.max(...used.map(c => c.confidence)) * 100) / 100,
+    sources: [...new Set(used.map(c => c.source))]
+  };
+}
+
+function presetFeatures(preset: Pick<WeightedIntent, 'kind' | 'name'>): FeatureValues {
+  const features: FeatureValues = {};
+  for (const [key, value] of Object.entries(getPreset(preset) || {})) {
+    const feature = key.replace(/^target_/, '') as VibeFeature;
+    if (key.startsWith('target_') && VIBE_FEATURES.includes(feature) && typeof value === 'number') {
+      features[feature] = value;
+    }
+  }
+  return features;
+}
+
+// Any mood, activity or time preset name (including custom ones) counts as a situation
+function presetFor(name: string): Pick<WeightedIntent, 'kind' | 'name'> | undefined {
+  for (const kind of ['mood', 'activity', 'time'] as const) {
+    if (getPreset({ kind, name })) return { kind, name };
+  }
+  return undefined;
+}
+
+function isPresetName(name: string): boolean {
+  return presetFor(name) !== undefined;
+}
+
+function clampFeature(feature: VibeFeature, value: number): number {
+  return feature === 'tempo'
+    ? Math.min(220, Math.max(40, value))
+    : Math.min(1, Math.max(0, value));
+}
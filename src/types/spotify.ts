@@ -29,10 +29,14 @@ export interface SpotifyTrack {
     id: string;
     name: string;
     images?: { url: string }[];
+    release_date?: string;  // "1997", "1997-06" or "1997-06-16"
   };
   duration_ms: number;
   popularity: number;
   uri: string;
+  external_ids?: { isrc?: string };
+  is_playable?: boolean;  // Only set when a market was requested
+  linked_from?: { id: string; uri: string };  // The track actually in the playlist, when relinked for the market
 }
 
 export interface AudioFeatures {
@@ -77,28 +81,210 @@ export interface TasteProfile {
     prefersAcoustic: boolean;
     avgPopularity: number;
   };
+  weights?: RangeWeights;   // How much each time range counted (missing in older saved profiles)
+  modes?: ListeningMode[];  // Not in profiles saved before listening modes existed
+  // Not in older saved profiles, nor in blends of several people's profiles
+  distributions?: Record<DistributionFeature, FeatureDistribution>;
 }
 
+// Audio features with a percentile/histogram breakdown in the taste profile
+export type DistributionFeature =
+  'danceability' | 'energy' | 'valence' | 'acousticness' | 'instrumentalness' |
+  'speechiness' | 'liveness' | 'loudness' | 'tempo';
+
+// How one audio feature is spread across the user's tracks
+export interface FeatureDistribution {
+  p10: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+  histogram: { min: number; max: number; counts: number[] };  // Equal-width bins from min to max
+}
+
+// How much each of Spotify's time ranges (and recently played tracks) counts in a taste profile
+export interface RangeWeights {
+  short: number;   // Last 4 weeks
+  medium: number;  // Last 6 months
+  long: number;    // All time
+  recent: number;  // Recently played
+}
+
+// A cluster of similar-sounding tracks in the user's listening (e.g. ambient vs metal)
+export interface ListeningMode {
+  id: number;     // 1-based, largest mode first
+  name: string;
+  share: number;  // Fraction of the analysed tracks, 0-1
+  centroid: {
+    danceability: number;
+    energy: number;
+    valence: number;
+    acousticness: number;
+    instrumentalness: number;
+    tempo: number;
+  };
+  genres: string[];
+  artistIds: string[];  // Most frequent first
+  trackIds: string[];   // Closest to the centroid first
+}
+
+// A taste profile written by `analyze --export`, with names so it makes sense to others
+export interface ExportedProfile {
+  version: number;
+  exportedAt: string;  // ISO timestamp
+  owner: string;       // Spotify display name
+  profile: TasteProfile;
+  artists: { id: string; name: string }[];  // Names for profile.topArtistIds
+  tracks: { id: string; name: string; artists: string[] }[];  // Names for profile.topTrackIds
+}
+
+// How well a group's tastes fit together, 0-100
+export interface ProfileCompatibility {
+  score: number;
+  pairs: { a: string; b: string; score: number }[];
+  sharedGenres: string[];
+}
+
+// A mood, activity or time-of-day preset with how strongly it should count
+export interface WeightedIntent {
+  kind: 'mood' | 'activity' | 'time';
+  name: string;
+  weight: number;
+}
+
+// Audio features a vibe description can ask for
+export type VibeFeature = 'energy' | 'valence' | 'danceability' | 'acousticness' | 'instrumentalness' | 'tempo';
+
+// A value read from a vibe, how sure the parser is about it and the words that set it
+export interface VibeTarget {
+  value: number;
+  confidence: number;  // 0-1
+  sources: string[];
+}
+
+// What a natural language vibe asks for
+export interface VibeIntent {
+  targets: Partial<Record<VibeFeature, VibeTarget>>;
+  popularity?: { min?: number; max?: number; confidence: number; source: string };
+  genres: { genre: string; confidence: number; source: string }[];
+  // "like Bonobo but more upbeat": the artist/track and how far to move away from it
+  reference?: {
+    type: 'artist' | 'track';
+    name: string;
+    adjustments: Partial<Record<VibeFeature, number>>;
+  };
+  years?: { from: number; to: number };
+}
+
+// Where to find tracks to leave out of a playlist
+export type ExcludeSource = 'known' | 'liked' | 'generated';
+
 export interface PlaylistOptions {
   name?: string;
   description?: string;
   trackCount?: number;
   duration?: number;  // minutes
-  mood?: 'happy' | 'sad' | 'energetic' | 'chill' | 'angry' | 'romantic';
-  activity?: 'workout' | 'focus' | 'party' | 'sleep' | 'commute' | 'cooking';
-  timeOfDay?: 'morning' | 'afternoon' | 'evening' | 'night';
+  // Built-in or custom preset names (see presets.ts)
+  mood?: string;
+  activity?: string;
+  timeOfDay?: string;
   basedOn?: string;  // artist:Name or track:Name
   vibe?: string;     // Natural language description
   discover?: boolean; // Find new music
   public?: boolean;
   // Blend feature
   blendWith?: string[];  // Artist names to blend taste with
+  withProfiles?: string[];  // Exported profile files of the people to blend with
   // Time machine feature
   birthYear?: number;
   targetYear?: number;   // Specific year for time machine
+  decade?: string;       // "1990s"
+  ageRange?: string;     // Ages to cover with birthYear, "14-18" by default
   // Genre deep dive feature
   genre?: string;
   deepCuts?: boolean;    // Find obscure tracks in genre
+  // Listening mode feature
+  listeningMode?: number;  // ID of a mode from the taste profile
+  // Running cadence feature
+  cadence?: number;          // Steps per minute to match
+  cadenceEnd?: number;       // Ramp the cadence to this value across the playlist
+  cadenceTolerance?: number; // Allowed BPM difference (default 4)
+  // Local re-ranking against the target audio features
+  featureWeights?: string;   // "energy=2,valence=0.5"
+  maxDeviation?: number;     // Reject tracks further than this from any target (0-1)
+  strict?: boolean;          // Never pad with tracks outside the bounds
+  // Which listening history the taste profile is built from
+  range?: string;            // short, medium, long or all
+  rangeWeights?: string;     // "short=1,long=3"
+  within?: string;           // Keep features inside these percentiles of the user's taste ("p10-p90")
+  // Extra weighted presets blended with the ones above (--mood chill:0.7 --activity focus:0.3)
+  modifiers?: WeightedIntent[];
+  // Exclusions
+  exclude?: ExcludeSource[];
+  // Artist diversity
+  maxPerArtist?: number;
+  maxPerAlbum?: number;
+  artistSpacing?: number;    // No same artist within this many slots
+  // Sequencing
+  arc?: string;          // Named energy arc or comma-separated curve ("0.4,0.9,0.3")
+  harmonic?: boolean;    // Camelot-compatible mixing order
+}
+
+// A seed sent to Spotify's recommendations and where it came from
+export interface ExplainedSeed {
+  type: 'artist' | 'track' | 'genre';
+  id: string;
+  name?: string;
+  source: string;
+  random: boolean;  // Picked at random from the taste profile
+}
+
+// What a plan asked Spotify for and why
+export interface PlanExplanation {
+  type: string;
+  params?: RecommendationParams;    // The first recommendations request
+  sources: Record<string, string>;  // Parameter name -> preset, vibe words, taste profile...
+  seeds: ExplainedSeed[];
+  notes: string[];
+}
+
+// A generated track list that has not been saved to Spotify yet
+export interface PlaylistPlan {
+  tracks: SpotifyTrack[];
+  playlistName: string;
+  description: string;
+  public: boolean;
+  audioFeatures?: Map<string, AudioFeatures>;
+  composition?: {
+    intents: { label: string; weight: number }[];
+    params: Partial<RecommendationParams>;
+  };
+  vibe?: VibeIntent;
+  explanation?: PlanExplanation;
+  compatibility?: ProfileCompatibility;
+  warnings?: string[];
+}
+
+// A saved playlist command that can be re-run by name
+export interface Recipe {
+  version: number;
+  args: string[];           // The original playlist subcommand arguments
+  options: PlaylistOptions;
+  run?: {
+    into?: string;
+    append?: boolean;
+  };
+  createdAt: string;        // ISO timestamp
+}
+
+// A recipe regenerated on a cron schedule
+export interface Schedule {
+  recipe: string;       // Recipe name
+  cron: string;         // 5-field cron expression, local time
+  into?: string;        // Playlist to update; defaults to the recipe's own --into
+  playlistId?: string;  // Playlist created by the first run, updated in place afterwards
+  lastRun?: string;     // ISO timestamp
+  createdAt: string;    // ISO timestamp
 }
 
 export interface RecommendationParams {
@@ -121,6 +307,15 @@ export interface SpotifyPlaylist {
   name: string;
   description: string;
   public: boolean;
+  owner?: { id: string; display_name?: string };
+  collaborative?: boolean;
+  snapshot_id?: string;
   tracks: { total: number };
   external_urls: { spotify: string };
 }
+
+export interface PlaylistItem {
+  added_at: string;
+  is_local: boolean;
+  track: SpotifyTrack | null;
+}